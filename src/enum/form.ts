@@ -4,7 +4,9 @@
 export enum FormState {
   IDLE = 'idle',
   PROCESSING = 'processing',
+  RETRYING = 'retrying',
   SUCCESS = 'success',
   ERROR = 'error',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  TIMED_OUT = 'timed_out'
 }
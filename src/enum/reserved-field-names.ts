@@ -41,5 +41,26 @@ export enum ReservedFieldNames {
   PATCH_FORM = 'patchForm',
   DELETE_FORM = 'deleteForm',
   OPTIONS_FORM = 'optionsForm',
-  MARK_RECENTLY_SUCCESSFUL = 'markRecentlySuccessful'
+  MARK_RECENTLY_SUCCESSFUL = 'markRecentlySuccessful',
+  ERROR_BAG = 'errorBag',
+  FORM_RULES = 'formRules',
+  VALIDATOR = 'validator',
+  TOUCHED = 'touched',
+  SUBMIT_COUNT = 'submitCount',
+  VALIDATING = 'validating',
+  VALIDATING_FIELDS = 'validatingFields',
+  ACTIVE_REQUESTS = 'activeRequests',
+  TRANSPORT = 'transport',
+  CONFIG = 'config',
+  DEFAULT_OPTIONS = 'defaultOptions',
+  PRECOGNITION = 'precognition',
+  MESSAGE_OVERRIDES = 'messageOverrides',
+  LOCALE = 'locale',
+  CHANGED_SINCE_TOUCH = 'changedSinceTouch',
+  VALIDATION_CONTROLLERS = 'validationControllers',
+  VALIDATION_SUCCESSORS = 'validationSuccessors',
+  VALIDATION_SETTLED = 'validationSettled',
+  SUBMISSIONS = 'submissions',
+  LATEST_SUBMISSION = 'latestSubmission',
+  CANCEL_GENERATION = 'cancelGeneration'
 }
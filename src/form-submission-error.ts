@@ -0,0 +1,33 @@
+import { FormErrors } from './types/error';
+
+/**
+ * Error a submission rejects with when the throwOnError option is enabled.
+ */
+export class FormSubmissionError<TForm = any> extends Error {
+  /**
+   * The form errors after the failure, including 'formError' for non-validation failures.
+   */
+  public readonly errors: FormErrors<TForm>;
+  /**
+   * The HTTP status of the response, or null when no response was received.
+   */
+  public readonly status: number | null;
+  /**
+   * The underlying error, if any.
+   */
+  public readonly cause: unknown;
+
+  /**
+   * Create a new submission error.
+   * @param {FormErrors<TForm>} errors - The form errors.
+   * @param {number | null} status - The HTTP status of the response.
+   * @param {unknown} [cause] - The underlying error, if any.
+   */
+  constructor(errors: FormErrors<TForm>, status: number | null, cause?: unknown) {
+    super(status ? `Form submission failed with status ${status}.` : 'Form submission failed.');
+    this.name = 'FormSubmissionError';
+    this.errors = errors;
+    this.status = status;
+    this.cause = cause;
+  }
+}
@@ -1,23 +1,54 @@
-import axios, { AxiosInstance, AxiosProgressEvent, AxiosResponse, CancelTokenSource, AxiosError } from 'axios';
+import { AxiosInstance } from 'axios';
 import { Form as IForm } from './types/form';
 import { NestedFormData } from './types/form-data';
 import { FormDataConvertible } from './types/form-data-convertible';
 import { FormOptions } from './types/form-options';
 import { Method } from './types/method';
 import { Progress } from './types/progress';
-import { ValidationRules } from './types/validation';
-import { ApiValidationError } from './types/error';
+import { SubmitResult } from './types/submit-result';
+import { FormTransport, TransportProgressEvent, TransportRequest, TransportResponse } from './types/transport';
+import { FieldValidationConfig, FormRule, ValidationRule, ValidationRules } from './types/validation';
+import { ValidationIssue, ValidatorAdapter } from './types/validator';
+import { ApiValidationError, FormErrorBag, FormErrorKey, FormErrors } from './types/error';
 import { createFormProxy } from './utils/form-proxy';
+import { guardAgainstReservedFieldName } from './utils/field-name-validator';
 import { deepClone } from './utils/deep-clone';
-import { getDefaultHeaders, prepareSubmissionData } from './utils/http-helpers';
+import { getDefaultHeaders, joinUrl, prepareSubmissionData, spoofMethod } from './utils/http-helpers';
 import { createProgressObject } from './utils/progress-tracker';
-import { formatGeneralError, formatValidationErrors } from './utils/error-formatter';
+import {
+  firstErrorMessages,
+  formatGeneralError,
+  formatValidationErrors,
+  getServerMessage
+} from './utils/error-formatter';
+import { getValueAtPath, isPathWithin, splitPath } from './utils/path';
+import { resolveQueryParams } from './utils/query-string';
+import { resolveRetryOptions, waitForRetry, withRetry } from './utils/retry';
+import { objectToFormData } from './utils/form-data';
+import { chainHooks } from './utils/interceptors';
+import {
+  formatMessage,
+  getLocale,
+  humanizeField,
+  mergeMessages,
+  resolveMessages,
+  resolveRuleMessage,
+  resolveStatusMessage
+} from './utils/messages';
+import { MessageCatalog, MessageOverrides } from './types/messages';
+import { SerializerOptions } from './types/serializer-options';
+import { FormlinkConfig } from './types/config';
+import { getFormlinkConfig, mergeConfig, resolveHeaders, resolveTransport } from './utils/config';
+import { diffObjects, diffPaths, isDeepEqual, isPlainObject } from './utils/diff';
+import { FieldPath } from './types/field-path';
 import { FormState } from './enum/form';
 import { TimeoutManager } from './timeout-manager';
+import { FormSubmissionError } from './form-submission-error';
+import { isTransportError, TransportError } from './transport-error';
 
 /**
  * The Form class provides a comprehensive solution for managing form state, validation, and submission in a TypeScript application.
- * It supports dirty field tracking, error handling, progress tracking, and integrates with Axios for HTTP requests.
+ * It supports dirty field tracking, error handling, progress tracking, and sends requests through a pluggable transport (Axios by default).
  *
  * @template TForm - The type of the form data, extending NestedFormData for deep structure support.
  */
@@ -27,9 +58,13 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    */
   public data: TForm;
   /**
-   * Errors for each field or the form as a whole.
+   * Errors for each field or the form as a whole (first message per field).
    */
-  public errors: Partial<Record<keyof TForm | 'formError', string>> = {};
+  public errors: FormErrors<TForm> = {};
+  /**
+   * Every error message for each field or the form as a whole.
+   */
+  public errorBag: FormErrorBag<TForm> = {};
   /**
    * Indicates if the form is currently processing a submission.
    */
@@ -46,18 +81,38 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    * Indicates if the form was recently successful (for UI feedback).
    */
   public recentlySuccessful = false;
-  /**
-   * Indicates if any field in the form has been modified.
-   */
-  public isDirty = false;
   /**
    * Validation rules for each field.
    */
   public rules: ValidationRules<TForm> = {} as ValidationRules<TForm>;
+  /**
+   * Form-level rules checking the whole data, reported on 'formError' or a target field.
+   */
+  public formRules: FormRule<TForm>[] = [];
+  /**
+   * Optional schema validator adapter (Zod, Yup, Valibot or custom) run alongside the rules.
+   */
+  public validator: ValidatorAdapter<TForm> | null = null;
   /**
    * The current state of the form (idle, processing, error, etc.).
    */
   public state: FormState = FormState.IDLE;
+  /**
+   * Fields the user has interacted with, marked through touch().
+   */
+  public touched: Partial<Record<keyof TForm, boolean>> = {};
+  /**
+   * The number of submissions attempted, including ones blocked by validation.
+   */
+  public submitCount = 0;
+  /**
+   * Indicates if a validation is in flight, for a field or the whole form.
+   */
+  public validating = false;
+  /**
+   * Paths with a validation in flight, such as an async availability check.
+   */
+  public validatingFields: Partial<Record<string, boolean>> = {};
 
   /**
    * Default values for the form, used for resetting.
@@ -68,49 +123,94 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    */
   protected transformCallback: ((data: TForm) => object) | null = null;
   /**
-   * Axios cancel token for aborting requests.
+   * Abort controllers of the requests in flight.
+   */
+  protected activeRequests = new Set<AbortController>();
+  /**
+   * Transport sending the form's requests.
+   */
+  protected transport: FormTransport;
+  /**
+   * The configuration of this form: the global one with the form's own on top.
+   */
+  protected config: FormlinkConfig;
+  /**
+   * Options applied to every submission of this form, overridden per request.
+   */
+  protected defaultOptions: Partial<FormOptions<TForm>> = {};
+  /**
+   * The endpoint validated with Laravel Precognition, when enabled.
    */
-  protected cancelTokenSource: CancelTokenSource | null = null;
+  protected precognition: { method: Method; url: string } | null = null;
   /**
-   * Axios instance used for HTTP requests.
+   * Messages replacing the locale's catalog for this form.
    */
-  protected axiosInstance: AxiosInstance;
+  protected messageOverrides: MessageOverrides = {};
+  /**
+   * The locale of this form's messages, or null to follow the global locale.
+   */
+  protected locale: string | null = null;
   /**
    * Timeout manager for debouncing and UI feedback.
    */
   protected timeoutManager = new TimeoutManager();
   /**
-   * Tracks which fields have been modified (dirty).
+   * Tracks paths explicitly marked as dirty, on top of the ones derived from the data.
    */
-  private dirtyFields = new Set<keyof TForm>();
-
+  private dirtyFields = new Set<string>();
   /**
-   * Type guard to check if a value is a File.
+   * Fields assigned since they were last touched, for the 'change' validation trigger.
    */
-  private isFile(value: unknown): value is File {
-    return typeof File !== 'undefined' && value instanceof File;
-  }
-
+  private changedSinceTouch = new Set<keyof TForm>();
   /**
-   * Type guard to check if a value is a Blob.
+   * Abort controllers of the validations in flight, keyed by path ('*' for the whole form). A Precognition
+   * request validating several fields is keyed by their paths joined with commas.
    */
-  private isBlob(value: unknown): value is Blob {
-    return typeof Blob !== 'undefined' && value instanceof Blob;
-  }
+  private validationControllers = new Map<string, AbortController>();
+  /**
+   * The validation that aborted another one, by the controller of the aborted validation.
+   */
+  private validationSuccessors = new WeakMap<AbortController, AbortController>();
+  /**
+   * Resolves once the validation of a controller settled.
+   */
+  private validationSettled = new WeakMap<AbortController, { promise: Promise<void>; resolve: () => void }>();
+  /**
+   * Submissions not yet settled, including queued ones.
+   */
+  private submissions = new Set<Promise<SubmitResult<any, TForm>>>();
+  /**
+   * The most recent submission, returned to submissions ignored by the 'ignore-new' policy.
+   */
+  private latestSubmission: Promise<SubmitResult<any, TForm>> | null = null;
+  /**
+   * Incremented by cancel(), so queued submissions know they were canceled before starting.
+   */
+  private cancelGeneration = 0;
 
   /**
    * Create a new form instance.
    * @param {TForm} initialData - The initial form data.
-   * @param {AxiosInstance} [axiosInstance=axios] - The Axios instance to use for requests.
+   * @param {FormTransport | AxiosInstance} [transport] - The transport, or the Axios instance, to send requests with.
+   * Defaults to the configured transport, then to axios.
+   * @param {FormlinkConfig} [config] - Configuration applied on top of the global one.
    * @returns {Form<TForm>} A proxied form instance for reactivity.
    */
-  constructor(initialData: TForm, axiosInstance: AxiosInstance = axios) {
+  constructor(initialData: TForm, transport?: FormTransport | AxiosInstance, config: FormlinkConfig = {}) {
     if (!initialData || typeof initialData !== 'object') {
       throw new Error('initialData must be a valid object');
     }
+    // Fields named after form state would be shadowed by it, so reject them up front
+    Object.keys(initialData).forEach(guardAgainstReservedFieldName);
     this.data = initialData;
     this.defaults = this.deepCloneData(initialData);
-    this.axiosInstance = axiosInstance;
+    this.config = mergeConfig(getFormlinkConfig(), config);
+
+    this.transport = resolveTransport(transport ?? this.config.transport);
+    this.locale = this.config.locale ?? null;
+    this.messageOverrides = this.config.messages ?? {};
+    if (this.config.retry !== undefined) this.defaultOptions.retry = this.config.retry;
+    if (this.config.serializer) this.defaultOptions.serializer = this.config.serializer;
 
     // Return a proxy to enable reactivity and field tracking
     return createFormProxy(this);
@@ -135,58 +235,117 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
   }
 
   /**
-   * Mark a field as dirty (modified).
-   * @param {keyof TForm} field - The field to mark as dirty
+   * Indicates if any field in the form differs from its default value, at any depth.
+   * @returns {boolean} Whether the form is dirty
+   */
+  public get isDirty(): boolean {
+    return this.dirtyFields.size > 0 || !isDeepEqual(this.data, this.defaults);
+  }
+
+  /**
+   * Mark a field as dirty (modified), even if its value matches the default.
+   * @param {keyof TForm | FieldPath<TForm>} field - The field or path to mark as dirty
    * @returns {void}
    */
-  public markFieldDirty(field: keyof TForm): void {
-    this.dirtyFields.add(field);
-    this.isDirty = true;
+  public markFieldDirty(field: keyof TForm | FieldPath<TForm>): void {
+    this.dirtyFields.add(String(field));
   }
 
   /**
-   * Check if a field is dirty (has been modified).
-   * @param {keyof TForm} field - The field to check
+   * Check if a field or nested path differs from its default value.
+   * @param {keyof TForm | FieldPath<TForm>} field - The field or path to check, e.g. 'address.city'
    * @returns {boolean} Whether the field is dirty
    */
-  public isFieldDirty(field: keyof TForm): boolean {
-    return this.dirtyFields.has(field);
+  public isFieldDirty(field: keyof TForm | FieldPath<TForm>): boolean {
+    const path = String(field);
+    if ([...this.dirtyFields].some((marked) => isPathWithin(marked, path))) {
+      return true;
+    }
+    return !isDeepEqual(getValueAtPath(this.data, path), getValueAtPath(this.defaults, path));
   }
 
   /**
-   * Get all dirty fields.
+   * Get all top-level fields that contain changes.
    * @returns {Set<keyof TForm>} Set of dirty fields
    */
   public getDirtyFields(): Set<keyof TForm> {
-    return new Set(this.dirtyFields);
+    return new Set(this.collectDirtyPaths().map((path) => splitPath(path)[0] as keyof TForm));
   }
 
   /**
-   * Clear dirty field tracking.
+   * Get the dot-notation paths of every changed value, e.g. ['address.city', 'items.2'].
+   * @returns {FieldPath<TForm>[]} The dirty paths
+   */
+  public getDirtyPaths(): FieldPath<TForm>[] {
+    return this.collectDirtyPaths() as FieldPath<TForm>[];
+  }
+
+  /**
+   * Collect changed paths together with the explicitly marked ones.
+   * @returns {string[]} The dirty paths
+   */
+  private collectDirtyPaths(): string[] {
+    return [...new Set([...diffPaths(this.data, this.defaults), ...this.dirtyFields])];
+  }
+
+  /**
+   * Get the changed subtree of the form data. Nested objects only keep their changed keys,
+   * while arrays are returned whole so they can be submitted as-is.
+   * @returns {Partial<TForm>} The changed values
+   */
+  public getChanges(): Partial<TForm> {
+    const changes = diffObjects(this.data as Record<string, unknown>, this.defaults as Record<string, unknown>);
+
+    // Fields marked dirty explicitly are included whole
+    this.dirtyFields.forEach((path) => {
+      const field = splitPath(path)[0];
+      if (field in this.data) {
+        changes[field] = this.data[field as keyof TForm];
+      }
+    });
+
+    return changes as Partial<TForm>;
+  }
+
+  /**
+   * Clear fields explicitly marked as dirty. Changes in the data itself stay dirty
+   * until the field is reset or its default is updated.
    * @returns {void}
    */
   public clearDirtyFields(): void {
     this.dirtyFields.clear();
-    this.isDirty = false;
   }
 
   /**
    * Set a specific error for a form field or the form as a whole.
-   * @param {keyof TForm | 'formError'} field - The form field or 'formError'.
-   * @param {string} message - The error message.
+   * @param {FormErrorKey<TForm>} field - The form field or 'formError'.
+   * @param {string | string[]} message - The error message or messages.
    * @returns {void}
    */
-  public setError(field: keyof TForm | 'formError', message: string): void {
-    this.errors[field] = message;
+  public setError(field: FormErrorKey<TForm>, message: string | string[]): void {
+    const messages = Array.isArray(message) ? [...message] : [message];
+    if (messages.length === 0) {
+      this.clearError(field);
+      return;
+    }
+    this.errorBag[field] = messages;
+    this.errors[field] = messages[0];
   }
 
   /**
-   * Set multiple errors for the form.
-   * @param {Partial<Record<keyof TForm | 'formError', string>>} errors - The form errors.
+   * Set multiple errors for the form, replacing any existing errors.
+   * @param {Partial<Record<FormErrorKey<TForm>, string | string[]>>} errors - The form errors.
    * @returns {void}
    */
-  public setErrors(errors: Partial<Record<keyof TForm | 'formError', string>>): void {
-    this.errors = errors;
+  public setErrors(errors: Partial<Record<FormErrorKey<TForm>, string | string[]>>): void {
+    const bag = Object.entries(errors).reduce<Record<string, string[]>>((acc, [field, message]) => {
+      if (message !== undefined) {
+        acc[field] = Array.isArray(message) ? [...message] : [message as string];
+      }
+      return acc;
+    }, {});
+    this.errorBag = bag as FormErrorBag<TForm>;
+    this.errors = firstErrorMessages(bag) as FormErrors<TForm>;
   }
 
   /**
@@ -195,15 +354,71 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    */
   public clearErrors(): void {
     this.errors = {};
+    this.errorBag = {};
   }
 
   /**
    * Clear error for a specific field.
-   * @param {keyof TForm | 'formError'} field - The field to clear error for.
+   * @param {FormErrorKey<TForm>} field - The field to clear error for.
    * @returns {void}
    */
-  public clearError(field: keyof TForm | 'formError'): void {
+  public clearError(field: FormErrorKey<TForm>): void {
     delete this.errors[field];
+    delete this.errorBag[field];
+  }
+
+  /**
+   * Get every error message for a specific field.
+   * @param {FormErrorKey<TForm>} field - The field to get errors for.
+   * @returns {string[]} The error messages, empty when the field has none
+   */
+  public getErrors(field: FormErrorKey<TForm>): string[] {
+    return [...(this.errorBag[field] ?? [])];
+  }
+
+  /**
+   * Get the first error message for a specific field.
+   * @param {FormErrorKey<TForm>} field - The field to get the error for.
+   * @returns {string | undefined} The first error message
+   */
+  public firstError(field: FormErrorKey<TForm>): string | undefined {
+    return this.errorBag[field]?.[0];
+  }
+
+  /**
+   * Get every error message of the form, keyed by field.
+   * @returns {FormErrorBag<TForm>} A copy of the error bag
+   */
+  public allErrors(): FormErrorBag<TForm> {
+    return Object.entries(this.errorBag).reduce<Record<string, string[]>>((acc, [field, messages]) => {
+      acc[field] = [...(messages as string[])];
+      return acc;
+    }, {}) as FormErrorBag<TForm>;
+  }
+
+  /**
+   * Get every error message at or beneath a path, e.g. all errors of an 'items' repeater.
+   * @param {FormErrorKey<TForm>} path - The parent path.
+   * @returns {FormErrorBag<TForm>} The matching errors keyed by their full path
+   */
+  public errorsUnder(path: FormErrorKey<TForm>): FormErrorBag<TForm> {
+    return Object.entries(this.errorBag).reduce<Record<string, string[]>>((acc, [key, messages]) => {
+      if (isPathWithin(key, String(path))) {
+        acc[key] = [...(messages as string[])];
+      }
+      return acc;
+    }, {}) as FormErrorBag<TForm>;
+  }
+
+  /**
+   * Clear every error at or beneath a path.
+   * @param {FormErrorKey<TForm>} path - The parent path.
+   * @returns {void}
+   */
+  public clearErrorsUnder(path: FormErrorKey<TForm>): void {
+    Object.keys(this.errorBag)
+      .filter((key) => isPathWithin(key, String(path)))
+      .forEach((key) => this.clearError(key as FormErrorKey<TForm>));
   }
 
   /**
@@ -216,19 +431,19 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
 
   /**
    * Check if a specific field has an error.
-   * @param {keyof TForm | 'formError'} field - The field to check.
+   * @param {FormErrorKey<TForm>} field - The field to check.
    * @returns {boolean} Whether the field has an error
    */
-  public hasError(field: keyof TForm | 'formError'): boolean {
+  public hasError(field: FormErrorKey<TForm>): boolean {
     return field in this.errors && !!this.errors[field];
   }
 
   /**
    * Get error message for a specific field.
-   * @param {keyof TForm | 'formError'} field - The field to get error for.
+   * @param {FormErrorKey<TForm>} field - The field to get error for.
    * @returns {string | undefined} The error message
    */
-  public getError(field: keyof TForm | 'formError'): string | undefined {
+  public getError(field: FormErrorKey<TForm>): string | undefined {
     return this.errors[field];
   }
 
@@ -238,22 +453,36 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    * @returns {void}
    */
   public reset(...fields: (keyof TForm)[]): void {
+    this.resetData(fields);
+    if (fields.length === 0) this.submitCount = 0;
+    this.abortValidations();
+    this.clearErrors();
+    this.state = FormState.IDLE;
+    this.wasSuccessful = false;
+    this.recentlySuccessful = false;
+  }
+
+  /**
+   * Restore form data to defaults and mark the fields as untouched, without clearing errors or submission state.
+   * @param {(keyof TForm)[]} fields - The fields to reset, all fields when empty.
+   * @returns {void}
+   */
+  protected resetData(fields: (keyof TForm)[]): void {
     if (fields.length === 0) {
       // Replace the data object reference for full reset
       this.data = this.deepCloneData(this.defaults);
       this.clearDirtyFields();
+      this.untouch();
     } else {
       fields.forEach((field) => {
         // Use deepClone for field-level (single value) clone
         this.data[field] = deepClone(this.defaults[field]);
-        this.dirtyFields.delete(field);
+        [...this.dirtyFields]
+          .filter((path) => isPathWithin(path, String(field)))
+          .forEach((path) => this.dirtyFields.delete(path));
       });
-      this.isDirty = this.dirtyFields.size > 0;
+      this.untouch(...fields);
     }
-    this.clearErrors();
-    this.state = FormState.IDLE;
-    this.wasSuccessful = false;
-    this.recentlySuccessful = false;
   }
 
   /**
@@ -285,68 +514,245 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
     return this;
   }
 
+  /**
+   * Set options applied to every submission of this form. Options passed to submit() take precedence.
+   * @param {Partial<FormOptions<TForm>>} options - The default form options.
+   * @returns {this} The form instance.
+   */
+  public withOptions(options: Partial<FormOptions<TForm>>): this {
+    this.defaultOptions = { ...this.defaultOptions, ...options };
+    return this;
+  }
+
   /**
    * Submit the form with the specified method and URL using Axios.
    * Handles progress, error, and success callbacks.
    * @param {Method} method - The HTTP method.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission,
+   * or rejecting with a FormSubmissionError on failure when throwOnError is set.
+   */
+  public submit<TResponse = any>(
+    method: Method,
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    options = {
+      ...this.defaultOptions,
+      ...options,
+      // The form's interceptors still run when the submission brings its own
+      onRequest: chainHooks(this.defaultOptions.onRequest, options?.onRequest),
+      onResponse: chainHooks(options?.onResponse, this.defaultOptions.onResponse)
+    };
+    const concurrency = options.concurrency ?? 'allow';
+
+    if (this.submissions.size > 0) {
+      // A double-click resolves with the outcome of the submission already under way
+      if (concurrency === 'ignore-new') return this.latestSubmission as Promise<SubmitResult<TResponse, TForm>>;
+      if (concurrency === 'cancel-previous') this.abortRequests();
+    }
+
+    let submission: Promise<SubmitResult<TResponse, TForm>>;
+    if (concurrency === 'queue' && this.submissions.size > 0) {
+      const generation = this.cancelGeneration;
+      submission = Promise.allSettled([...this.submissions]).then(() =>
+        generation === this.cancelGeneration ? this.send(method, url, options) : this.skipCanceled(options)
+      );
+    } else {
+      submission = this.send(method, url, options);
+    }
+
+    this.submissions.add(submission);
+    this.latestSubmission = submission;
+    const settle = () => {
+      this.submissions.delete(submission);
+    };
+    submission.then(settle, settle);
+
+    return submission;
+  }
+
+  /**
+   * Send a submission: validate it if required, perform the request and handle its outcome.
+   * @param {Method} method - The HTTP method.
+   * @param {string} url - The URL to submit to.
+   * @param {Partial<FormOptions<TForm>>} options - The merged form options.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} The outcome of the submission.
    */
-  public async submit(method: Method, url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
+  protected async send<TResponse>(
+    method: Method,
+    url: string,
+    options: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    // Vetoed submissions leave no trace: nothing is counted, validated or thrown
+    if (options.onBefore && options.onBefore() === false) {
+      return { ok: false, errors: {}, status: null };
+    }
+
+    this.submitCount++;
+
+    // Register the submission before validating it, so cancel() and newer submissions can abort it meanwhile
+    const controller = new AbortController();
+    this.activeRequests.add(controller);
+
+    // Tie the request to the caller's signal, e.g. a component unmount
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    const release = () => {
+      options.signal?.removeEventListener('abort', abort);
+      this.activeRequests.delete(controller);
+      this.processing = this.activeRequests.size > 0;
+    };
+
+    // With automatic validation enabled, an invalid form is not sent
+    const isValid = options.validateOn || options.fieldValidation ? await this.validateAll() : true;
+    if (controller.signal.aborted) {
+      const canceled = new TransportError('canceled', 'The request was canceled.');
+      this.handleError(canceled, options);
+      release();
+      return this.fail({ ...this.errors }, null, options, canceled);
+    }
+    if (!isValid) {
+      release();
+      this.state = FormState.ERROR;
+      if (options?.onError) options.onError(this.errors);
+      return this.fail({ ...this.errors }, null, options);
+    }
+
     this.processing = true;
     this.state = FormState.PROCESSING;
     this.clearErrors();
 
-    this.cancelTokenSource = axios.CancelToken.source();
-
+    let result: SubmitResult<TResponse, TForm>;
+    let failure: unknown;
+    // The values being saved, which become the new defaults once the server accepted them
+    const submitted = this.deepCloneData(this.data);
     try {
-      if (options?.onBefore) options.onBefore();
-
-      // Prepare data for submission, applying any transformation
-      const dataToSubmit = prepareSubmissionData(this.data, this.transformCallback);
-
-      interface SubmitRequestConfig {
-        method: Method;
-        url: string;
-        data: object | FormData;
-        cancelToken: CancelTokenSource['token'];
-        headers: Record<string, string>;
-        onUploadProgress: (event: AxiosProgressEvent) => void;
-      }
-
-      const requestConfig: SubmitRequestConfig = {
-        method,
-        url,
-        data: dataToSubmit,
-        cancelToken: this.cancelTokenSource.token,
-        headers: getDefaultHeaders(),
-        onUploadProgress: (event: AxiosProgressEvent): void => {
+      let requestConfig: TransportRequest = {
+        ...this.createRequestConfig(method, url, options),
+        signal: controller.signal,
+        timeout: options.timeout,
+        onUploadProgress: (event: TransportProgressEvent): void => {
           if (event.total) {
             this.updateProgress(event, options);
           }
         }
       };
 
-      // Perform the HTTP request
-      const response: AxiosResponse = await this.axiosInstance(requestConfig);
+      const interceptRequest = chainHooks(this.config.onRequest, options.onRequest);
+      if (interceptRequest) requestConfig = await interceptRequest(requestConfig);
+
+      // Perform the HTTP request, retrying transient failures as configured
+      const retry = resolveRetryOptions(options.retry);
+      let response = await withRetry(
+        () => this.transport.request<TResponse>(requestConfig),
+        retry,
+        async (attempt, error, delay) => {
+          this.state = FormState.RETRYING;
+          if (retry?.onRetry) retry.onRetry(attempt, error, delay);
+          await waitForRetry(delay, controller.signal);
+          this.state = FormState.PROCESSING;
+        }
+      );
+
+      const interceptResponse = chainHooks(options.onResponse, this.config.onResponse);
+      if (interceptResponse) response = await interceptResponse(response);
 
-      this.handleSuccess(response, options);
+      this.handleSuccess(response, options, submitted);
+      result = { ok: true, response };
     } catch (error: unknown) {
       this.handleError(error, options);
+      failure = error;
+      result = {
+        ok: false,
+        errors: { ...this.errors },
+        status: isTransportError(error) ? (error.response?.status ?? null) : null
+      };
     } finally {
-      this.processing = false;
+      release();
       if (options?.onFinish) options.onFinish();
     }
+
+    return result.ok ? result : this.fail(result.errors, result.status, options, failure);
+  }
+
+  /**
+   * Settle a queued submission canceled before it could start.
+   * @param {Partial<FormOptions<TForm>>} options - The merged form options.
+   * @returns {SubmitResult<never, TForm>} The failed result.
+   */
+  protected skipCanceled(options: Partial<FormOptions<TForm>>): SubmitResult<never, TForm> {
+    if (options.onCanceled) options.onCanceled();
+    return this.fail({}, null, options);
+  }
+
+  /**
+   * Report a failed submission, rejecting with a FormSubmissionError when throwOnError is set.
+   * @param {FormErrors<TForm>} errors - The form errors.
+   * @param {number | null} status - The HTTP status of the response, if any.
+   * @param {Partial<FormOptions<TForm>>} options - The merged form options.
+   * @param {unknown} [cause] - The underlying error, if any.
+   * @returns {SubmitResult<never, TForm>} The failed result.
+   */
+  protected fail(
+    errors: FormErrors<TForm>,
+    status: number | null,
+    options: Partial<FormOptions<TForm>>,
+    cause?: unknown
+  ): SubmitResult<never, TForm> {
+    if (options.throwOnError) {
+      throw new FormSubmissionError<TForm>(errors, status, cause);
+    }
+    return { ok: false, errors, status };
   }
 
   /**
-   * Update the progress based on the Axios progress event.
-   * @param {AxiosProgressEvent} event - The Axios progress event.
+   * Build the request for the form data: apply the transform, serialize files to FormData,
+   * spoof the method and move the data to the query string as configured.
+   * @param {Method} method - The HTTP method.
+   * @param {string} url - The URL to send the request to.
+   * @param {Partial<FormOptions<TForm>>} options - The merged form options.
+   * @returns {TransportRequest} The request.
+   */
+  protected createRequestConfig(method: Method, url: string, options: Partial<FormOptions<TForm>>): TransportRequest {
+    // Prepare data for submission, applying any transformation
+    const payload = options?.onlyDirty ? (this.getChanges() as TForm) : this.data;
+    const preparedData = prepareSubmissionData(
+      payload,
+      options.transform ?? this.transformCallback,
+      options.serializer
+    );
+
+    // PHP only parses multipart bodies on POST, so spoof the method for file uploads if requested
+    const { method: requestMethod, data: dataToSubmit } = options.spoofMethod
+      ? spoofMethod(method, preparedData)
+      : { method, data: preparedData };
+
+    // Browsers drop GET bodies, so those methods send their data in the query string. A spoofed request
+    // is sent as POST and keeps its multipart body
+    const fullUrl = joinUrl(this.config.baseURL, url);
+    const query = (options?.queryMethods ?? ['get']).includes(requestMethod)
+      ? resolveQueryParams(fullUrl, dataToSubmit, options.queryMode, options.serializer)
+      : null;
+
+    return {
+      method: requestMethod,
+      url: query ? query.url : fullUrl,
+      data: query ? undefined : dataToSubmit,
+      params: query ? query.params : undefined,
+      headers: { ...getDefaultHeaders(), ...resolveHeaders(this.config.headers) }
+    };
+  }
+
+  /**
+   * Update the progress based on the upload progress event.
+   * @param {TransportProgressEvent} event - The progress event.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
    * @returns {void}
    */
-  protected updateProgress(event: AxiosProgressEvent, options?: Partial<FormOptions<TForm>>): void {
+  protected updateProgress(event: TransportProgressEvent, options?: Partial<FormOptions<TForm>>): void {
     if (event.total) {
       this.progress = createProgressObject(event);
 
@@ -357,32 +763,111 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
   }
 
   /**
-   * Handle the success response from the Axios request.
-   * @param {AxiosResponse} response - The Axios response object.
+   * Handle the success response of the request.
+   * @param {TransportResponse} response - The response.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
+   * @param {TForm} [submitted] - The data that was submitted, which the saved fields' defaults are rebased onto.
    * @returns {void}
    */
-  protected handleSuccess(response: AxiosResponse, options?: Partial<FormOptions<TForm>>): void {
+  protected handleSuccess<TResponse>(
+    response: TransportResponse<TResponse>,
+    options?: Partial<FormOptions<TForm, TResponse>>,
+    submitted?: TForm
+  ): void {
     this.wasSuccessful = true;
     this.state = FormState.SUCCESS;
     this.clearDirtyFields();
     this.markRecentlySuccessful();
 
+    if (options?.mergeResponse) {
+      this.mergeResponse(response, options);
+    }
+
     if (options?.onSuccess) {
       options.onSuccess(response);
     }
+
+    if (options?.resetOnSuccess) {
+      this.resetAfterSuccess(options);
+    }
+
+    if (submitted) {
+      this.rebaseDefaults(submitted);
+    }
+  }
+
+  /**
+   * Make the submitted values the new defaults, so saved fields are no longer dirty. Fields that
+   * changed since the submission (edited meanwhile, reset or merged from the response) keep their
+   * defaults.
+   * @param {TForm} submitted - The data that was submitted.
+   * @returns {void}
+   */
+  protected rebaseDefaults(submitted: TForm): void {
+    const defaults = { ...this.defaults };
+    (Object.keys(submitted) as Array<keyof TForm>).forEach((key) => {
+      if (isDeepEqual(this.data[key], submitted[key])) {
+        defaults[key] = submitted[key];
+      }
+    });
+    this.defaults = defaults;
+  }
+
+  /**
+   * Merge the values picked from a response into the data, and into the defaults when requested.
+   * @param {TransportResponse<TResponse>} response - The successful response.
+   * @param {Partial<FormOptions<TForm, TResponse>>} options - The form options.
+   * @returns {void}
+   */
+  protected mergeResponse<TResponse>(
+    response: TransportResponse<TResponse>,
+    options: Partial<FormOptions<TForm, TResponse>>
+  ): void {
+    let values: Partial<TForm> | null | undefined;
+    if (typeof options.mergeResponse === 'function') {
+      values = options.mergeResponse(response);
+    } else if (isPlainObject(response.data)) {
+      // Only take the keys the form knows about, leaving out the rest of the server's model
+      values = Object.fromEntries(Object.entries(response.data).filter(([key]) => key in this.data)) as Partial<TForm>;
+    }
+    if (!values) return;
+
+    this.data = { ...this.data, ...deepClone(values) };
+    if (options.mergeIntoDefaults) {
+      this.setDefaults(values);
+    }
+  }
+
+  /**
+   * Reset the form after a successful submission, as requested by the resetOnSuccess option.
+   * @param {Partial<FormOptions<TForm>>} options - The form options.
+   * @returns {void}
+   */
+  protected resetAfterSuccess(options: Partial<FormOptions<TForm>>): void {
+    const fields = Array.isArray(options.resetOnSuccess) ? options.resetOnSuccess : [];
+    if (Array.isArray(options.resetOnSuccess) && fields.length === 0) return;
+
+    if (options.preserveState === false) {
+      this.reset(...fields);
+      return;
+    }
+
+    this.resetData(fields);
+    this.clearErrors();
   }
 
   /**
-   * Handle an error response from an Axios request.
+   * Handle a failed request.
    * Sets appropriate error messages based on error type and status code.
    * @param {unknown} error - The error object.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
    * @returns {void}
    */
   protected handleError(error: unknown, options?: Partial<FormOptions<TForm>>): void {
-    if (axios.isCancel(error)) {
-      this.state = FormState.CANCELLED;
+    if (isTransportError(error, 'canceled')) {
+      // A request canceled in favor of a newer one leaves the state to that one
+      if (this.activeRequests.size <= 1) this.state = FormState.CANCELLED;
+      if (options?.onCanceled) options.onCanceled();
       return;
     }
 
@@ -390,30 +875,28 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
 
     // DRY up error assignment
     const setFormError = (msg: string) => {
-      this.errors = { formError: msg } as Partial<Record<keyof TForm | 'formError', string>>;
+      this.setErrors({ formError: msg } as FormErrors<TForm>);
     };
-
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      const status = axiosError.response?.status;
-      if (!axiosError.response) {
-        setFormError('Network error. Please check your connection and try again.');
-      } else if (status === 422) {
-        const validationError = axiosError.response.data as ApiValidationError;
-        this.errors = formatValidationErrors(validationError) as Partial<Record<keyof TForm | 'formError', string>>;
-      } else if (status === 404) {
-        setFormError('The requested resource was not found.');
-      } else if (status === 403) {
-        setFormError('You do not have permission to perform this action.');
-      } else if (status === 401) {
-        setFormError('Authentication required. Please log in and try again.');
-      } else if (status && status >= 500) {
-        setFormError('Server error. Please try again later.');
+    const messages = this.getMessages();
+
+    if (isTransportError(error)) {
+      const response = error.response;
+      const serverMessage = options?.useServerMessage ? getServerMessage(response?.data) : null;
+      if (error.kind === 'timeout') {
+        this.state = FormState.TIMED_OUT;
+        setFormError(messages.timeout);
+      } else if (error.kind !== 'http' || !response) {
+        setFormError(messages.network);
+      } else if (response.status === 422) {
+        const validationError = response.data as ApiValidationError;
+        const bag = formatValidationErrors(validationError);
+        if (serverMessage) bag.formError = [serverMessage];
+        this.setErrors(bag as FormErrorBag<TForm>);
       } else {
-        setFormError(`Server returned an error (${status ?? 'unknown'}). Please try again.`);
+        setFormError(serverMessage ?? resolveStatusMessage(messages, response.status));
       }
     } else {
-      this.errors = formatGeneralError(error) as Partial<Record<keyof TForm | 'formError', string>>;
+      this.setErrors(formatGeneralError(error, messages.unexpected) as FormErrors<TForm>);
     }
 
     if (options?.onError) {
@@ -426,60 +909,78 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    * Submit the form with a GET request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  public get(url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
-    return this.submit('get', url, options);
+  public get<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    return this.submit<TResponse>('get', url, options);
   }
 
   /**
    * Submit the form with a POST request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  public post(url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
-    return this.submit('post', url, options);
+  public post<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    return this.submit<TResponse>('post', url, options);
   }
 
   /**
    * Submit the form with a PUT request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  public put(url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
-    return this.submit('put', url, options);
+  public put<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    return this.submit<TResponse>('put', url, options);
   }
 
   /**
    * Submit the form with a PATCH request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  public patch(url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
-    return this.submit('patch', url, options);
+  public patch<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    return this.submit<TResponse>('patch', url, options);
   }
 
   /**
    * Submit the form with a DELETE request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  public delete(url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
-    return this.submit('delete', url, options);
+  public delete<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    return this.submit<TResponse>('delete', url, options);
   }
 
   /**
    * Submit the form with an OPTIONS request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  public options(url: string, options?: Partial<FormOptions<TForm>>): Promise<void> {
-    return this.submit('options', url, options);
+  public options<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>> {
+    return this.submit<TResponse>('options', url, options);
   }
 
   /**
@@ -507,31 +1008,316 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
   }
 
   /**
-   * Validate a specific field against its defined rules.
-   * @param {keyof TForm} field - The field to validate.
+   * Validate the form against a Laravel endpoint using Precognition: validate() sends the data with a
+   * `Precognition: true` header so the server runs the route's validation without executing it.
+   * @param {Method} method - The HTTP method of the endpoint.
+   * @param {string} url - The URL of the endpoint.
+   * @returns {this} The form instance.
+   */
+  public withPrecognition(method: Method, url: string): this {
+    this.precognition = { method, url };
+    return this;
+  }
+
+  /**
+   * Override messages of the locale's catalog for this form, such as status or rule messages.
+   * @param {MessageOverrides} messages - The messages to use instead.
+   * @returns {this} The form instance.
+   */
+  public withMessages(messages: MessageOverrides): this {
+    this.messageOverrides = mergeMessages(this.messageOverrides, messages);
+    return this;
+  }
+
+  /**
+   * Set the locale of this form's messages.
+   * @param {string | null} locale - The locale, or null to follow the global locale.
+   * @returns {this} The form instance.
+   */
+  public setLocale(locale: string | null): this {
+    this.locale = locale;
+    return this;
+  }
+
+  /**
+   * Get the message catalog of this form: the locale's messages with the form's overrides applied.
+   * @returns {MessageCatalog} The messages.
+   */
+  public getMessages(): MessageCatalog {
+    return resolveMessages(this.locale ?? getLocale(), this.messageOverrides);
+  }
+
+  /**
+   * Use a schema validator adapter to drive validate() and validateField().
+   * @param {ValidatorAdapter<TForm> | null} validator - The validator adapter, or null to remove it.
+   * @returns {this} The form instance.
+   */
+  public withValidator(validator: ValidatorAdapter<TForm> | null): this {
+    this.validator = validator;
+    return this;
+  }
+
+  /**
+   * Validate a specific field against its defined rules, the form rules reported on it and the
+   * validator adapter. Fields and form rules depending on it are validated again.
+   * @param {keyof TForm | FieldPath<TForm>} field - The field or path to validate.
    * @returns {Promise<boolean>} A promise that resolves with a boolean indicating if the field is valid.
    */
-  public async validateField(field: keyof TForm): Promise<boolean> {
-    const rules = this.rules[field];
-    if (!rules?.length) return true;
+  public async validateField(field: keyof TForm | FieldPath<TForm>): Promise<boolean> {
+    const path = String(field);
+    const isValid = await this.validatePath(path);
+
+    for (const dependent of this.getDependentPaths(path)) {
+      await this.validatePath(dependent);
+    }
+
+    return isValid;
+  }
+
+  /**
+   * Validate a single path, replacing any errors reported on or beneath it. Starting a new
+   * validation of the path aborts the previous one, whose result is then discarded.
+   * @param {string} path - The path to validate, or 'formError' for form rules without a field.
+   * @returns {Promise<boolean>} Whether the path is valid.
+   */
+  protected async validatePath(path: string): Promise<boolean> {
+    const rules = this.rules[path];
+    const formRules = this.formRules.filter((rule) => String(rule.field ?? 'formError') === path);
+    if (!rules?.length && !formRules.length && !this.validator) return true;
+
+    const controller = this.startValidation(path);
+    try {
+      const issues: ValidationIssue[] = [];
+      const ruleIssue = await this.runFieldRules(path, controller.signal);
+      if (ruleIssue) issues.push(ruleIssue);
+
+      for (const rule of formRules) {
+        const formIssue = await this.runFormRule(rule, controller.signal);
+        if (formIssue) issues.push(formIssue);
+      }
+
+      if (this.validator) {
+        issues.push(...(await this.runValidator(path)));
+      }
+
+      // A newer validation took over, whose result is the one the form shows
+      if (controller.signal.aborted) return await this.supersededOutcome(controller, [path]);
 
-    // Clear existing error for this field
-    this.clearError(field);
+      // Replace existing errors for this field, including nested ones reported by the validator
+      this.clearErrorsUnder(path as FormErrorKey<TForm>);
+      this.addValidationIssues(issues);
 
-    const value = this.data[field];
+      return issues.length === 0;
+    } finally {
+      this.finishValidation(path, controller);
+    }
+  }
+
+  /**
+   * Get the paths to validate again after a field was validated: fields whose rules depend on it
+   * and targets of form rules depending on it. Fields are only included once they hold a value
+   * the user changed or an error, so untouched fields are not flagged early.
+   * @param {string} path - The validated path.
+   * @returns {string[]} The dependent paths.
+   */
+  protected getDependentPaths(path: string): string[] {
+    const dependents = new Set<string>();
+
+    for (const [field, rules] of Object.entries(this.rules)) {
+      if (rules?.some((rule) => this.ruleDependencies(rule, field).some((dep) => isPathWithin(path, dep)))) {
+        dependents.add(field);
+      }
+    }
+
+    for (const rule of this.formRules) {
+      if (rule.dependsOn?.some((dep) => isPathWithin(path, String(dep)))) {
+        dependents.add(String(rule.field ?? 'formError'));
+      }
+    }
+
+    dependents.delete(path);
+    return [...dependents].filter(
+      (dependent) =>
+        dependent === 'formError' ||
+        this.isFieldDirty(dependent as FieldPath<TForm>) ||
+        this.hasError(dependent as FormErrorKey<TForm>)
+    );
+  }
+
+  /**
+   * Resolve the paths a rule depends on.
+   * @param {ValidationRule} rule - The rule.
+   * @param {string} field - The field the rule is attached to.
+   * @returns {string[]} The dependency paths.
+   */
+  private ruleDependencies(rule: ValidationRule, field: string): string[] {
+    if (!rule.dependsOn) return [];
+    return typeof rule.dependsOn === 'function' ? rule.dependsOn(field) : rule.dependsOn;
+  }
+
+  /**
+   * Run a form-level rule.
+   * @param {FormRule<TForm>} rule - The form rule.
+   * @param {AbortSignal} signal - Aborted when the validation is superseded.
+   * @returns {Promise<ValidationIssue | null>} The issue reported on the target field, or null when the rule passed.
+   */
+  protected async runFormRule(rule: FormRule<TForm>, signal: AbortSignal): Promise<ValidationIssue | null> {
+    const path = String(rule.field ?? 'formError');
+
+    try {
+      return (await rule.validate(this.data, signal)) ? null : { path, message: rule.message };
+    } catch {
+      return { path, message: formatMessage(this.getMessages().ruleFailed, { attribute: humanizeField(path) }) };
+    }
+  }
+
+  /**
+   * Run the validator adapter on a path, or on the whole form. A validator that throws reports the
+   * 'ruleFailed' message on the path, or on 'formError' for the whole form.
+   * @param {string | null} path - The path to validate, or null for the whole form.
+   * @returns {Promise<ValidationIssue[]>} The validation issues.
+   */
+  protected async runValidator(path: string | null): Promise<ValidationIssue[]> {
+    const validator = this.validator as ValidatorAdapter<TForm>;
+
+    try {
+      if (path === null) return await validator.validate(this.data);
+      if (validator.validateField && path !== 'formError') return await validator.validateField(path, this.data);
+
+      return (await validator.validate(this.data)).filter((issue) => isPathWithin(issue.path || 'formError', path));
+    } catch {
+      const target = path ?? 'formError';
+      const message = formatMessage(this.getMessages().ruleFailed, { attribute: humanizeField(target) });
+      return [{ path: target, message }];
+    }
+  }
+
+  /**
+   * Run the rules defined for a field, stopping at the first failure.
+   * @param {string} field - The field to validate.
+   * @param {AbortSignal} signal - Aborted when the validation is superseded.
+   * @returns {Promise<ValidationIssue | null>} The issue of the first failing rule, or null when every rule passed.
+   */
+  protected async runFieldRules(field: string, signal: AbortSignal): Promise<ValidationIssue | null> {
+    const rules = this.rules[field];
+    if (!rules?.length) return null;
+
+    const value = getValueAtPath(this.data, field);
+    const messages = this.getMessages();
     for (const rule of rules) {
+      if (signal.aborted) return null;
+
       try {
-        const isValid = await rule.validate(value);
+        const isValid = await rule.validate(value, this.data, field, signal);
         if (!isValid) {
-          this.setError(field, rule.message);
-          return false;
+          return { path: field, message: resolveRuleMessage(rule, field, value, messages.rules) };
         }
       } catch {
-        this.setError(field, 'Validation error occurred');
-        return false;
+        return { path: field, message: formatMessage(messages.ruleFailed, { attribute: humanizeField(field) }) };
       }
     }
-    return true;
+    return null;
+  }
+
+  /**
+   * Add validator issues to the errors, keeping any errors already set for the same path.
+   * Issues without a path are reported as 'formError'.
+   * @param {ValidationIssue[]} issues - The validation issues.
+   * @returns {void}
+   */
+  protected addValidationIssues(issues: ValidationIssue[]): void {
+    issues.forEach((issue) => {
+      const key = (issue.path || 'formError') as FormErrorKey<TForm>;
+      this.setError(key, [...this.getErrors(key), issue.message]);
+    });
+  }
+
+  /**
+   * Register a validation in flight, aborting the previous validation with the same key.
+   * @param {string} key - The validated path, or '*' for the whole form.
+   * @returns {AbortController} The controller of the new validation.
+   */
+  protected startValidation(key: string): AbortController {
+    const controller = new AbortController();
+    let resolve = () => {};
+    const promise = new Promise<void>((settle) => (resolve = settle));
+    this.validationSettled.set(controller, { promise, resolve });
+
+    const previous = this.validationControllers.get(key);
+    if (previous) {
+      previous.abort();
+      this.validationSuccessors.set(previous, controller);
+    }
+
+    this.validationControllers.set(key, controller);
+    this.updateValidating();
+
+    return controller;
+  }
+
+  /**
+   * Unregister a validation once it settled, unless a newer one took its place.
+   * @param {string} key - The validated path, or '*' for the whole form.
+   * @param {AbortController} controller - The controller of the settled validation.
+   * @returns {void}
+   */
+  protected finishValidation(key: string, controller: AbortController): void {
+    this.validationSettled.get(controller)?.resolve();
+    if (this.validationControllers.get(key) !== controller) return;
+
+    this.validationControllers.delete(key);
+    this.updateValidating();
+  }
+
+  /**
+   * Abort every validation in flight so their results are discarded.
+   * @param {AbortController} [successor] - The validation superseding them, if any.
+   * @returns {void}
+   */
+  protected abortValidations(successor?: AbortController): void {
+    this.validationControllers.forEach((controller) => {
+      if (controller === successor) return;
+
+      controller.abort();
+      if (successor) this.validationSuccessors.set(controller, successor);
+    });
+    this.validationControllers.clear();
+    if (successor) this.validationControllers.set('*', successor);
+    this.updateValidating();
+  }
+
+  /**
+   * Resolve an aborted validation with the outcome the form ends up showing: once the validation
+   * that superseded it settled, whether the paths (or the whole form) are free of errors.
+   * @param {AbortController} controller - The controller of the aborted validation.
+   * @param {string[] | null} paths - The validated paths, or null for the whole form.
+   * @returns {Promise<boolean>} Whether the paths are valid.
+   */
+  protected async supersededOutcome(controller: AbortController, paths: string[] | null): Promise<boolean> {
+    const successor = this.validationSuccessors.get(controller);
+    if (successor) await this.validationSettled.get(successor)?.promise;
+
+    return !Object.keys(this.errorBag).some((key) => paths === null || paths.some((path) => isPathWithin(key, path)));
+  }
+
+  /**
+   * Sync the validating flags with the validations in flight.
+   * @returns {void}
+   */
+  private updateValidating(): void {
+    const paths = [...this.validationControllers.keys()].filter((key) => key !== '*').flatMap((key) => key.split(','));
+
+    this.validatingFields = Object.fromEntries(paths.map((path) => [path, true]));
+    this.validating = this.validationControllers.size > 0;
+  }
+
+  /**
+   * Check whether a validation is in flight, for the given field or the whole form.
+   * @param {keyof TForm | FieldPath<TForm>} [field] - The field to check.
+   * @returns {boolean} Whether the field, or any part of the form, is being validated.
+   */
+  public isValidating(field?: keyof TForm | FieldPath<TForm>): boolean {
+    return field === undefined ? this.validating : !!this.validatingFields[String(field)];
   }
 
   /**
@@ -541,7 +1327,7 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
   public async validateDirtyFields(): Promise<boolean> {
     let isValid = true;
 
-    for (const field of this.dirtyFields) {
+    for (const field of this.getDirtyFields()) {
       const fieldValid = await this.validateField(field);
       if (!fieldValid) {
         isValid = false;
@@ -552,28 +1338,262 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
   }
 
   /**
-   * Validate the form data against the defined rules.
-   * @param {boolean} [onlyDirty=false] - Whether to validate only dirty fields.
+   * Validate the form data against the defined rules. Pass true to validate only the dirty fields,
+   * or the fields to validate. With Precognition enabled, data passing the client-side checks is
+   * then validated by the server.
+   * @param {boolean | string | string[]} [fields=false] - True for the dirty fields, or the fields to validate.
    * @returns {Promise<boolean>} A promise that resolves with a boolean indicating if the form is valid.
    */
-  public async validate(onlyDirty: boolean = false): Promise<boolean> {
-    if (onlyDirty) {
-      return this.validateDirtyFields();
+  public async validate(
+    fields: boolean | keyof TForm | FieldPath<TForm> | Array<keyof TForm | FieldPath<TForm>> = false
+  ): Promise<boolean> {
+    if (fields === false) {
+      const isValid = await this.validateAll();
+      return isValid && this.precognition ? this.validatePrecognitively(null) : isValid;
     }
 
-    this.clearErrors();
     let isValid = true;
+    let paths: string[];
+    if (fields === true) {
+      paths = [...this.getDirtyFields()].map(String);
+      isValid = await this.validateDirtyFields();
+    } else {
+      paths = (Array.isArray(fields) ? fields : [fields]).map(String);
+      for (const path of paths) {
+        const fieldValid = await this.validateField(path as keyof TForm);
+        if (!fieldValid) {
+          isValid = false;
+        }
+      }
+    }
 
-    for (const [field, rules] of Object.entries(this.rules)) {
-      if (!rules || rules.length === 0) continue;
+    return isValid && this.precognition && paths.length ? this.validatePrecognitively(paths) : isValid;
+  }
 
-      const fieldValid = await this.validateField(field as keyof TForm);
-      if (!fieldValid) {
-        isValid = false;
+  /**
+   * Validate the whole form against the rules, the form rules and the validator adapter. Field
+   * validations in flight are aborted, as this validation supersedes them.
+   * @returns {Promise<boolean>} Whether the form is valid.
+   */
+  protected async validateAll(): Promise<boolean> {
+    const controller = this.startValidation('*');
+    this.abortValidations(controller);
+
+    try {
+      const issues: ValidationIssue[] = [];
+
+      for (const [field, rules] of Object.entries(this.rules)) {
+        if (!rules || rules.length === 0) continue;
+
+        const issue = await this.runFieldRules(field, controller.signal);
+        if (issue) issues.push(issue);
+      }
+
+      for (const rule of this.formRules) {
+        const issue = await this.runFormRule(rule, controller.signal);
+        if (issue) issues.push(issue);
       }
+
+      if (this.validator) {
+        issues.push(...(await this.runValidator(null)));
+      }
+
+      if (controller.signal.aborted) return await this.supersededOutcome(controller, null);
+
+      this.clearErrors();
+      this.addValidationIssues(issues);
+
+      return issues.length === 0;
+    } finally {
+      this.finishValidation('*', controller);
     }
+  }
 
-    return isValid;
+  /**
+   * Validate the data on the server with a Precognition request. A 422 response replaces the errors
+   * of the validated fields, a successful one clears them.
+   * @param {string[] | null} fields - The fields to validate, or null for the whole form.
+   * @returns {Promise<boolean>} Whether the server accepted the data.
+   */
+  protected async validatePrecognitively(fields: string[] | null): Promise<boolean> {
+    const { method, url } = this.precognition as { method: Method; url: string };
+    const key = fields ? fields.join(',') : '*';
+    const controller = this.startValidation(key);
+    const config = this.createRequestConfig(method, url, this.defaultOptions);
+
+    let errors: Record<string, string[]> = {};
+    try {
+      let request: TransportRequest = {
+        ...config,
+        headers: {
+          ...config.headers,
+          Precognition: 'true',
+          ...(fields ? { 'Precognition-Validate-Only': fields.join(',') } : {})
+        },
+        signal: controller.signal
+      };
+
+      // Precognition requests need the same auth headers as submissions
+      const interceptRequest = chainHooks(this.config.onRequest, this.defaultOptions.onRequest);
+      if (interceptRequest) request = await interceptRequest(request);
+
+      await this.transport.request(request);
+    } catch (error: unknown) {
+      const response = isTransportError(error) ? error.response : undefined;
+      if (controller.signal.aborted) return await this.supersededOutcome(controller, fields);
+      if (response?.status !== 422) throw error;
+
+      errors = formatValidationErrors(response.data as ApiValidationError);
+    } finally {
+      this.finishValidation(key, controller);
+    }
+
+    if (!fields) {
+      this.setErrors(errors as FormErrorBag<TForm>);
+      return Object.keys(errors).length === 0;
+    }
+
+    // The server only reports the requested fields, but keep other fields' errors untouched regardless
+    fields.forEach((field) => this.clearErrorsUnder(field as FormErrorKey<TForm>));
+    const fieldErrors = Object.entries(errors).filter(([path]) => fields.some((field) => isPathWithin(path, field)));
+    fieldErrors.forEach(([path, messages]) => this.setError(path as FormErrorKey<TForm>, messages));
+
+    return fieldErrors.length === 0;
+  }
+
+  /**
+   * Mark a field as touched, typically from a blur handler, validating it when its trigger is
+   * 'blur', or 'change' and its value changed since it was last touched.
+   * @param {keyof TForm} field - The field the user interacted with.
+   * @returns {this} The form instance.
+   */
+  public touch(field: keyof TForm): this {
+    this.touched[field] = true;
+
+    const { validateOn } = this.getFieldValidationConfig(field);
+    if (validateOn === 'blur' || (validateOn === 'change' && this.changedSinceTouch.has(field))) {
+      this.scheduleValidation(field);
+    }
+    this.changedSinceTouch.delete(field);
+
+    return this;
+  }
+
+  /**
+   * Check whether a field, or any field when none is given, has been touched.
+   * @param {keyof TForm} [field] - The field to check.
+   * @returns {boolean} Whether the field or form was touched.
+   */
+  public isTouched(field?: keyof TForm): boolean {
+    return field === undefined ? Object.values(this.touched).some(Boolean) : !!this.touched[field];
+  }
+
+  /**
+   * Mark fields as untouched, or every field when none are given.
+   * @param {...(keyof TForm)[]} fields - The fields to mark as untouched.
+   * @returns {this} The form instance.
+   */
+  public untouch(...fields: (keyof TForm)[]): this {
+    if (fields.length === 0) {
+      this.touched = {};
+      this.changedSinceTouch.clear();
+    } else {
+      fields.forEach((field) => {
+        delete this.touched[field];
+        this.changedSinceTouch.delete(field);
+      });
+    }
+    return this;
+  }
+
+  /**
+   * The errors to display: those of touched fields, or every error once a submission was attempted,
+   * so pristine fields don't show errors from an early validate(). Nested paths follow their
+   * top-level field, and 'formError' shows once any field is touched.
+   * @returns {FormErrors<TForm>} The visible error messages.
+   */
+  public get visibleErrors(): FormErrors<TForm> {
+    if (this.submitCount > 0) return { ...this.errors };
+
+    return Object.entries(this.errors).reduce<Record<string, string>>((acc, [key, message]) => {
+      const visible = key === 'formError' ? this.isTouched() : this.isTouched(splitPath(key)[0] as keyof TForm);
+      if (visible && message) {
+        acc[key] = message as string;
+      }
+      return acc;
+    }, {}) as FormErrors<TForm>;
+  }
+
+  /**
+   * Called by the form proxy after a field is assigned, validating it when its trigger is 'input'.
+   * Fields already showing an error are validated again on change so the error clears once fixed.
+   * @param {keyof TForm} field - The assigned field.
+   * @param {unknown} previous - The value before the assignment.
+   * @returns {void}
+   */
+  public handleFieldChange(field: keyof TForm, previous: unknown): void {
+    const { validateOn } = this.getFieldValidationConfig(field);
+    if (!validateOn) return;
+
+    const changed = !isDeepEqual(this.data[field], previous);
+    if (changed) this.changedSinceTouch.add(field);
+
+    if (validateOn === 'input' || (changed && this.hasError(field as FormErrorKey<TForm>))) {
+      this.scheduleValidation(field);
+    }
+  }
+
+  /**
+   * Resolve the validation trigger and debounce of a field from the field and form options.
+   * @param {keyof TForm} field - The field.
+   * @returns {FieldValidationConfig} The field's validation config.
+   */
+  protected getFieldValidationConfig(field: keyof TForm): FieldValidationConfig {
+    const config = this.defaultOptions.fieldValidation?.[field];
+    return {
+      validateOn: config?.validateOn ?? this.defaultOptions.validateOn,
+      debounce: config?.debounce ?? this.defaultOptions.validateDebounce
+    };
+  }
+
+  /**
+   * Validate a field now, or after its debounce delay when one is configured.
+   * @param {keyof TForm} field - The field to validate.
+   * @returns {void}
+   */
+  protected scheduleValidation(field: keyof TForm): void {
+    const { debounce } = this.getFieldValidationConfig(field);
+    const run = () => {
+      const validation = this.precognition ? this.validate(field) : this.validateField(field);
+      // Nobody awaits automatic validation, so a failed Precognition request is reported as a form error
+      validation.catch((error: unknown) => this.reportValidationFailure(error));
+    };
+    if (!debounce) {
+      run();
+      return;
+    }
+
+    this.timeoutManager.set(`validate:${String(field)}`, run, debounce);
+  }
+
+  /**
+   * Report a validation request that failed without validation errors (server error, network failure
+   * or timeout) as 'formError', with the catalog's message.
+   * @param {unknown} error - The failure.
+   * @returns {void}
+   */
+  protected reportValidationFailure(error: unknown): void {
+    if (isTransportError(error, 'canceled')) return;
+
+    const messages = this.getMessages();
+    let message = messages.unexpected;
+    if (isTransportError(error, 'timeout')) {
+      message = messages.timeout;
+    } else if (isTransportError(error)) {
+      message = error.response ? resolveStatusMessage(messages, error.response.status) : messages.network;
+    }
+
+    this.setError('formError' as FormErrorKey<TForm>, message);
   }
 
   /**
@@ -581,20 +1601,27 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    * @returns {void}
    */
   public cancel(): void {
-    if (this.cancelTokenSource) {
-      this.cancelTokenSource.cancel('Form submission canceled.');
-    }
+    this.cancelGeneration++;
+    this.abortRequests();
     this.processing = false;
     this.progress = null;
     this.state = FormState.CANCELLED;
   }
 
+  /**
+   * Cancel every request in flight, leaving the form state to the caller.
+   * @returns {void}
+   */
+  protected abortRequests(): void {
+    this.activeRequests.forEach((controller) => controller.abort());
+  }
+
   /**
    * Mark the form as recently successful for a short duration (for UI feedback).
-   * @param {number} [timeout=2000] - The duration in milliseconds.
+   * @param {number} [timeout] - The duration in milliseconds, the configured one (2000 by default) if omitted.
    * @returns {void}
    */
-  protected markRecentlySuccessful(timeout: number = 2000): void {
+  protected markRecentlySuccessful(timeout: number = this.config.recentlySuccessfulDuration ?? 2000): void {
     this.recentlySuccessful = true;
     this.timeoutManager.set(
       'recentlySuccessful',
@@ -617,34 +1644,15 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
 
   /**
    * Convert form data to FormData object for file uploads.
-   * Handles nested objects and arrays.
+   * Uses the same serializer as multipart submissions, including the form's serializer options.
+   * @param {SerializerOptions} [options] - Serializer options overriding the form's defaults.
    * @returns {FormData} FormData object containing form data.
    */
-  public toFormData(): FormData {
-    const formData = new FormData();
-
-    // Recursively append data to FormData
-    const appendToFormData = (data: any, parentKey: string = ''): void => {
-      if (data === undefined || data === null) return; // skip undefined/null
-      if (this.isFile(data) || this.isBlob(data)) {
-        if (parentKey) formData.append(parentKey, data);
-      } else if (Array.isArray(data)) {
-        data.forEach((item, index) => {
-          appendToFormData(item, `${parentKey}[${index}]`);
-        });
-      } else if (typeof data === 'object' && data !== null) {
-        Object.keys(data).forEach((key) => {
-          const value = data[key];
-          const formKey = parentKey ? `${parentKey}[${key}]` : key;
-          appendToFormData(value, formKey);
-        });
-      } else if (parentKey) {
-        formData.append(parentKey, String(data));
-      }
-    };
-
-    appendToFormData(this.data);
-    return formData;
+  public toFormData(options?: SerializerOptions): FormData {
+    return objectToFormData(this.data as Record<string, FormDataConvertible>, {
+      ...this.defaultOptions.serializer,
+      ...options
+    });
   }
 
   /**
@@ -698,7 +1706,7 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
       hasErrors: this.hasErrors(),
       errorCount: Object.keys(this.errors).length,
       isDirty: this.isDirty,
-      dirtyFieldCount: this.dirtyFields.size,
+      dirtyFieldCount: this.getDirtyFields().size,
       processing: this.processing,
       wasSuccessful: this.wasSuccessful,
       recentlySuccessful: this.recentlySuccessful
@@ -712,6 +1720,7 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
    */
   public dispose(): void {
     this.cancel();
+    this.abortValidations();
     this.clearErrors();
     this.timeoutManager.clearAll();
 
@@ -720,12 +1729,18 @@ export class Form<TForm extends NestedFormData<TForm>> implements IForm<TForm> {
     this.defaults = {} as TForm;
     this.transformCallback = null;
     this.dirtyFields.clear();
+    this.untouch();
+    this.submitCount = 0;
     this.rules = {} as ValidationRules<TForm>;
+    this.formRules = [];
+    this.validator = null;
+    this.precognition = null;
+    this.messageOverrides = {};
+    this.locale = null;
     this.state = FormState.IDLE;
     this.processing = false;
     this.wasSuccessful = false;
     this.recentlySuccessful = false;
-    this.isDirty = false;
     this.progress = null;
   }
 }
@@ -1,12 +1,44 @@
 import { App } from 'vue';
 import { Form } from './form';
+import { FormlinkConfig } from './types/config';
+import { configureFormlink } from './utils/config';
 import { useForm } from './use-form';
 
-const install = (app: App) => {
+const install = (app: App, config: FormlinkConfig = {}) => {
+  configureFormlink(config);
   app.component('Form', Form);
   app.config.globalProperties.$useForm = useForm;
 };
 
 export { install };
 export { Form } from './form';
-export { useForm } from './use-form';
+export { createFormlink, useForm } from './use-form';
+export { configureFormlink, getFormlinkConfig, resetFormlinkConfig } from './utils/config';
+export type { FormlinkConfig } from './types/config';
+export type { RequestHook, ResponseHook } from './types/interceptors';
+export { FormSubmissionError } from './form-submission-error';
+export type { SubmitFailure, SubmitResult, SubmitSuccess } from './types/submit-result';
+export { TransportError, isTransportError } from './transport-error';
+export { axiosTransport } from './transports/axios';
+export { fetchTransport } from './transports/fetch';
+export type { FetchTransportOptions } from './transports/fetch';
+export { memoryTransport } from './transports/memory';
+export type { MemoryHandler, MemoryReply, MemoryTransport } from './transports/memory';
+export type {
+  FormTransport,
+  TransportErrorKind,
+  TransportProgressEvent,
+  TransportRequest,
+  TransportResponse
+} from './types/transport';
+export type { FieldPath } from './types/field-path';
+export type { RetryOptions } from './types/retry-options';
+export type { SerializerOptions } from './types/serializer-options';
+export { rules } from './validators/rules';
+export { getLocale, registerMessages, setLocale } from './utils/messages';
+export type { MessageCatalog, MessageOverrides, MessageTemplate } from './types/messages';
+export { zodValidator } from './validators/zod';
+export { yupValidator } from './validators/yup';
+export { valibotValidator } from './validators/valibot';
+export type { ValidationIssue, ValidatorAdapter } from './types/validator';
+export type { FormRule, ValidationRule, ValidationRules } from './types/validation';
@@ -0,0 +1,44 @@
+import { TransportErrorKind, TransportResponse } from './types/transport';
+
+/**
+ * Error a transport rejects with, normalizing the failures of the underlying HTTP client.
+ */
+export class TransportError<T = any> extends Error {
+  /**
+   * Why the request failed.
+   */
+  public readonly kind: TransportErrorKind;
+  /**
+   * The response of an 'http' failure.
+   */
+  public readonly response?: TransportResponse<T>;
+  /**
+   * The error of the underlying HTTP client, if any.
+   */
+  public readonly cause: unknown;
+
+  /**
+   * Create a new transport error.
+   * @param {TransportErrorKind} kind - Why the request failed.
+   * @param {string} message - The error message.
+   * @param {TransportResponse<T>} [response] - The response of an 'http' failure.
+   * @param {unknown} [cause] - The error of the underlying HTTP client.
+   */
+  constructor(kind: TransportErrorKind, message: string, response?: TransportResponse<T>, cause?: unknown) {
+    super(message);
+    this.name = 'TransportError';
+    this.kind = kind;
+    this.response = response;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Checks whether an error is a transport error, optionally of the given kind.
+ * @param {unknown} error - The error.
+ * @param {TransportErrorKind} [kind] - The expected kind.
+ * @returns {boolean} Whether the error is a matching transport error.
+ */
+export function isTransportError(error: unknown, kind?: TransportErrorKind): error is TransportError {
+  return error instanceof TransportError && (kind === undefined || error.kind === kind);
+}
@@ -0,0 +1,41 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+import { TransportError } from '@/transport-error';
+import { FormTransport, TransportRequest, TransportResponse } from '@/types/transport';
+
+/**
+ * Creates a transport sending requests with Axios. Responses are the Axios responses themselves.
+ * @param {AxiosInstance} [instance=axios] - The Axios instance.
+ * @returns {FormTransport} The transport.
+ */
+export function axiosTransport(instance: AxiosInstance = axios): FormTransport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      try {
+        return await instance<T>(request);
+      } catch (error: unknown) {
+        throw toTransportError(error);
+      }
+    }
+  };
+}
+
+/**
+ * Converts an Axios failure to a transport error, leaving other errors untouched.
+ * @param {unknown} error - The error.
+ * @returns {unknown} The transport error, or the original error.
+ */
+function toTransportError(error: unknown): unknown {
+  if (axios.isCancel(error)) {
+    return new TransportError('canceled', 'The request was canceled.', undefined, error);
+  }
+  if (!axios.isAxiosError(error)) return error;
+
+  if (error.code === AxiosError.ETIMEDOUT || error.code === AxiosError.ECONNABORTED) {
+    return new TransportError('timeout', error.message, undefined, error);
+  }
+
+  return error.response
+    ? new TransportError('http', error.message, error.response, error)
+    : new TransportError('network', error.message, undefined, error);
+}
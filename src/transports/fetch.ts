@@ -0,0 +1,143 @@
+import { TransportError } from '@/transport-error';
+import { FormTransport, TransportRequest, TransportResponse } from '@/types/transport';
+import { isFormData } from '@/utils/form-data';
+import { joinUrl } from '@/utils/http-helpers';
+import { clearTimeout, createTimeout } from '@/utils/timeout';
+
+export interface FetchTransportOptions {
+  /**
+   * Prepended to relative request URLs.
+   */
+  baseURL?: string;
+  /**
+   * Headers sent with every request.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Whether to send cookies, 'same-origin' by default.
+   */
+  credentials?: RequestCredentials;
+  /**
+   * The fetch implementation, the global one by default.
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Creates a transport sending requests with the native fetch API. Fetch cannot observe uploads, so
+ * upload progress is not reported.
+ * @param {FetchTransportOptions} [options] - The transport options.
+ * @returns {FormTransport} The transport.
+ */
+export function fetchTransport(options: FetchTransportOptions = {}): FormTransport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      const send = options.fetch ?? globalThis.fetch;
+
+      // Abort on the caller's signal as well as on timeout, remembering which one fired
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      let timedOut = false;
+      const expire = () => {
+        timedOut = true;
+        abort();
+      };
+      if (request.signal?.aborted) abort();
+      request.signal?.addEventListener('abort', abort, { once: true });
+      const timeoutId = request.timeout ? createTimeout(expire, request.timeout) : null;
+
+      try {
+        const response = await send(buildUrl(request, options.baseURL), {
+          method: request.method.toUpperCase(),
+          headers: buildHeaders(request, options.headers),
+          body: buildBody(request),
+          credentials: options.credentials ?? 'same-origin',
+          signal: controller.signal
+        });
+
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          headers[name.toLowerCase()] = value;
+        });
+        const result = {
+          data: parseBody(await response.text(), headers['content-type']),
+          status: response.status,
+          headers
+        };
+
+        if (!response.ok) {
+          throw new TransportError('http', `Request failed with status code ${response.status}`, result);
+        }
+
+        return result;
+      } catch (error: unknown) {
+        if (error instanceof TransportError) throw error;
+        if (timedOut) throw new TransportError('timeout', `timeout of ${request.timeout}ms exceeded`, undefined, error);
+        if (controller.signal.aborted)
+          throw new TransportError('canceled', 'The request was canceled.', undefined, error);
+
+        throw new TransportError('network', 'Network Error', undefined, error);
+      } finally {
+        if (timeoutId !== null) clearTimeout(timeoutId);
+        request.signal?.removeEventListener('abort', abort);
+      }
+    }
+  };
+}
+
+/**
+ * Builds the URL of a request: the base URL for relative URLs, and the query parameters.
+ * @param {TransportRequest} request - The request.
+ * @param {string} [baseURL] - The base URL.
+ * @returns {string} The URL.
+ */
+function buildUrl(request: TransportRequest, baseURL?: string): string {
+  const url = joinUrl(baseURL, request.url);
+  const query = request.params?.toString();
+  return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+}
+
+/**
+ * Builds the headers of a request, asking for JSON and describing JSON bodies.
+ * @param {TransportRequest} request - The request.
+ * @param {Record<string, string>} [defaults] - Headers sent with every request.
+ * @returns {Record<string, string>} The headers.
+ */
+function buildHeaders(request: TransportRequest, defaults?: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = { Accept: 'application/json', ...defaults, ...request.headers };
+
+  // The browser sets the multipart boundary itself
+  if (request.data !== undefined && !isFormData(request.data)) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  return headers;
+}
+
+/**
+ * Builds the body of a request: FormData as is, anything else as JSON.
+ * @param {TransportRequest} request - The request.
+ * @returns {BodyInit | undefined} The body.
+ */
+function buildBody(request: TransportRequest): BodyInit | undefined {
+  if (request.data === undefined || request.method === 'get') return undefined;
+
+  return isFormData(request.data) ? request.data : JSON.stringify(request.data);
+}
+
+/**
+ * Parses a response body, as JSON when it is JSON.
+ * @param {string} text - The response body.
+ * @param {string} [contentType] - The Content-Type header.
+ * @returns {any} The parsed body, or null when empty.
+ */
+function parseBody(text: string, contentType?: string): any {
+  if (text === '') return null;
+  if (!contentType?.includes('json')) return text;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,70 @@
+import { TransportError } from '@/transport-error';
+import { FormTransport, TransportRequest, TransportResponse } from '@/types/transport';
+import { clearTimeout, createTimeout } from '@/utils/timeout';
+
+/**
+ * The response of an in-memory request. Statuses outside 2xx fail the request.
+ */
+export interface MemoryReply {
+  status?: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Answers the requests of an in-memory transport. Throwing a TransportError fails the request with it,
+ * throwing anything else fails it as a network error.
+ */
+export type MemoryHandler = (request: TransportRequest) => MemoryReply | Promise<MemoryReply>;
+
+export interface MemoryTransport extends FormTransport {
+  /**
+   * The requests sent so far.
+   */
+  requests: TransportRequest[];
+}
+
+/**
+ * Creates a transport answering requests in memory, for tests and prototypes. Replies slower than the request's
+ * timeout fail it as timed out.
+ * @param {MemoryHandler} [handler] - Answers the requests, with an empty 200 response by default.
+ * @returns {MemoryTransport} The transport.
+ */
+export function memoryTransport(handler: MemoryHandler = () => ({ status: 200 })): MemoryTransport {
+  const requests: TransportRequest[] = [];
+
+  return {
+    requests,
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      requests.push(request);
+
+      let reply: MemoryReply;
+      try {
+        reply = await new Promise<MemoryReply>((resolve, reject) => {
+          const cancel = () => reject(new TransportError('canceled', 'The request was canceled.'));
+          const expire = () => reject(new TransportError('timeout', `timeout of ${request.timeout}ms exceeded`));
+          if (request.signal?.aborted) return cancel();
+          request.signal?.addEventListener('abort', cancel, { once: true });
+          const timeoutId = request.timeout ? createTimeout(expire, request.timeout) : null;
+          Promise.resolve()
+            .then(() => handler(request))
+            .then(resolve, reject)
+            .finally(() => {
+              request.signal?.removeEventListener('abort', cancel);
+              if (timeoutId !== null) clearTimeout(timeoutId);
+            });
+        });
+      } catch (error: unknown) {
+        if (error instanceof TransportError) throw error;
+        throw new TransportError('network', 'Network Error', undefined, error);
+      }
+
+      const response = { data: (reply.data ?? null) as T, status: reply.status ?? 200, headers: reply.headers ?? {} };
+      if (response.status < 200 || response.status >= 300) {
+        throw new TransportError('http', `Request failed with status code ${response.status}`, response);
+      }
+
+      return response;
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { AxiosInstance } from 'axios';
+
+import { RequestHook, ResponseHook } from './interceptors';
+import { MessageOverrides } from './messages';
+import { RetryOptions } from './retry-options';
+import { SerializerOptions } from './serializer-options';
+import { FormTransport } from './transport';
+
+/**
+ * Defaults shared by forms, set globally with configureFormlink() or per set of forms with createFormlink().
+ */
+export interface FormlinkConfig {
+  /**
+   * The transport, or the Axios instance, forms send requests with. Axios by default.
+   */
+  transport?: FormTransport | AxiosInstance;
+
+  /**
+   * Prepended to relative submission URLs.
+   */
+  baseURL?: string;
+
+  /**
+   * Headers sent with every request, on top of the CSRF token. A function is called for each request.
+   */
+  headers?: Record<string, string> | (() => Record<string, string>);
+
+  /**
+   * The locale of the forms' messages, the global locale by default.
+   */
+  locale?: string;
+
+  /**
+   * Messages replacing the locale's catalog.
+   */
+  messages?: MessageOverrides;
+
+  /**
+   * Default retry policy of submissions.
+   */
+  retry?: number | RetryOptions;
+
+  /**
+   * How long recentlySuccessful stays true after a successful submission, in milliseconds (default 2000).
+   */
+  recentlySuccessfulDuration?: number;
+
+  /**
+   * Default encoding of multipart and query string data.
+   */
+  serializer?: SerializerOptions;
+
+  /**
+   * Intercepts every request before the form's and the submission's own hooks, e.g. to add an auth header.
+   */
+  onRequest?: RequestHook;
+
+  /**
+   * Intercepts every successful response after the form's and the submission's own hooks.
+   */
+  onResponse?: ResponseHook;
+}
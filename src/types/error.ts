@@ -1,3 +1,5 @@
+import { FieldPath } from './field-path';
+
 export interface ApiValidationError {
   errors: Record<string, string[]>;
   message: string;
@@ -8,3 +10,18 @@ export interface FormError {
   field?: string;
   code?: string;
 }
+
+/**
+ * Keys an error can be stored under: a top-level field, a dot-notation path or 'formError'.
+ */
+export type FormErrorKey<TForm> = keyof TForm | FieldPath<TForm> | 'formError';
+
+/**
+ * First-message view of the form errors, keyed by field path or 'formError'.
+ */
+export type FormErrors<TForm> = Partial<Record<FormErrorKey<TForm>, string>>;
+
+/**
+ * Every error message for each field path or 'formError'.
+ */
+export type FormErrorBag<TForm> = Partial<Record<FormErrorKey<TForm>, string[]>>;
@@ -0,0 +1,27 @@
+/**
+ * Values that are addressed as a whole and never descended into.
+ */
+type FieldPathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | Blob | FileList;
+
+/**
+ * Countdown used to bound the recursion depth of FieldPath.
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+type JoinFieldPath<K extends string, V, Depth extends number> =
+  | K
+  | `${K}.${FieldPathOf<V, PrevDepth[Depth]>}`;
+
+type FieldPathOf<T, Depth extends number> = [Depth] extends [never]
+  ? never
+  : T extends FieldPathLeaf
+    ? never
+    : T extends ReadonlyArray<infer Item>
+      ? JoinFieldPath<`${number}`, Item, Depth>
+      : { [K in keyof T & (string | number)]-?: JoinFieldPath<`${K}`, T[K], Depth> }[keyof T & (string | number)];
+
+/**
+ * Dot-notation paths of a form data structure, e.g. 'address.city' or 'items.0.sku'.
+ * Matches the keys Laravel uses for nested and array validation errors.
+ */
+export type FieldPath<T> = FieldPathOf<T, 6>;
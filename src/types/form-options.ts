@@ -1,26 +1,152 @@
-import { AxiosResponse } from 'axios';
-
+import { Method } from './method';
 import { Progress } from './progress';
+import { RetryOptions } from './retry-options';
+import { SerializerOptions } from './serializer-options';
+import { TransportResponse } from './transport';
+import { FieldValidationConfig, ValidationTrigger } from './validation';
+import { RequestHook, ResponseHook } from './interceptors';
 
-export interface FormOptions<TForm> {
+export interface FormOptions<TForm, TResponse = any> {
   /**
    * Determines whether the form should reset to its initial state after a successful submission.
+   * Pass a list of fields to reset only those fields.
+   */
+  resetOnSuccess: boolean | Array<keyof TForm>;
+
+  /**
+   * When resetting on success, keep the submission state (wasSuccessful, recentlySuccessful and state)
+   * so success feedback is still shown. Defaults to true; set to false to return the form to idle.
+   */
+  preserveState?: boolean;
+
+  /**
+   * Submit only the fields that differ from their defaults (useful for partial PATCH requests).
+   * Nested objects are reduced to their changed keys, arrays are sent whole.
+   */
+  onlyDirty?: boolean;
+
+  /**
+   * Transform the data before it is submitted, for this request only.
+   * Takes precedence over the callback registered with form.transform().
+   */
+  transform?: (data: TForm) => object;
+
+  /**
+   * Methods whose data is serialized into the URL query string (bracket notation) instead of the body.
+   * Defaults to ['get'].
+   */
+  queryMethods?: Method[];
+
+  /**
+   * Whether query string data is merged with the parameters already in the URL or replaces them.
+   * Defaults to 'merge'.
+   */
+  queryMode?: 'merge' | 'replace';
+
+  /**
+   * Send multipart PUT, PATCH and DELETE submissions as POST with a `_method` field (Laravel method spoofing),
+   * since PHP does not parse multipart bodies for those methods.
+   */
+  spoofMethod?: boolean;
+
+  /**
+   * How the data is encoded for multipart payloads and query strings (array keys, booleans, nulls, dates, nesting).
+   */
+  serializer?: SerializerOptions;
+
+  /**
+   * Validate fields automatically on the given trigger. Once set, submissions are validated first
+   * and not sent while the form is invalid. Defaults to manual validation.
+   */
+  validateOn?: ValidationTrigger;
+
+  /**
+   * Milliseconds to wait after the last trigger before validating a field. Defaults to 0.
+   */
+  validateDebounce?: number;
+
+  /**
+   * Per-field validation trigger and debounce, overriding validateOn and validateDebounce.
+   */
+  fieldValidation?: Partial<Record<keyof TForm, FieldValidationConfig>>;
+
+  /**
+   * Merge the response back into the form data after a successful submission, so server-normalized
+   * values (ids, slugs, timestamps) replace what was typed. Pass true to merge the keys of the
+   * response body that already exist in the data, or a function picking the values to merge.
+   */
+  mergeResponse?: boolean | ((response: TransportResponse<TResponse>) => Partial<TForm> | null | undefined);
+
+  /**
+   * Also make the merged response values the new defaults, so the form is no longer dirty
+   * and resets to the saved values.
+   */
+  mergeIntoDefaults?: boolean;
+
+  /**
+   * Show the `message` the server sends with an error response as 'formError': next to the field
+   * errors of a 422, or instead of the catalog's status message for other failures.
+   */
+  useServerMessage?: boolean;
+
+  /**
+   * Aborts the submission when aborted, e.g. on component unmount or route change.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Time in milliseconds after which a request is aborted and the form moves to the timed-out state.
+   * With retries, each attempt gets the full timeout.
+   */
+  timeout?: number;
+
+  /**
+   * What to do when the form is submitted while a submission is in flight:
+   * - 'allow': send both requests (default)
+   * - 'cancel-previous': cancel the requests in flight and send the new one
+   * - 'ignore-new': skip the new submission and resolve with the outcome of the one in flight
+   * - 'queue': send the new submission once the previous ones settled
+   */
+  concurrency?: 'cancel-previous' | 'ignore-new' | 'queue' | 'allow';
+
+  /**
+   * Retry submissions failing with a network error or a transient status, with exponential backoff.
+   * Pass the maximum number of attempts, or the full retry options.
+   */
+  retry?: number | RetryOptions;
+
+  /**
+   * Reject the submission promise with a FormSubmissionError when it fails, instead of
+   * resolving with an `{ ok: false }` result.
+   */
+  throwOnError?: boolean;
+
+  /**
+   * Hook called before the form submission starts. Returning false cancels the submission before it is
+   * validated or sent, resolving with a failed result even with throwOnError.
+   */
+  onBefore?: () => boolean | void;
+
+  /**
+   * Intercepts the request before it is sent, to change its headers, URL or payload. Runs once per
+   * submission, after the global hook and the form's own (set with withOptions).
    */
-  resetOnSuccess: boolean;
+  onRequest?: RequestHook;
 
   /**
-   * Hook called before the form submission starts.
+   * Intercepts a successful response before the form handles it, to transform or reject it. Runs before
+   * the form's own hook (set with withOptions) and the global one.
    */
-  onBefore?: () => void;
+  onResponse?: ResponseHook<TResponse>;
 
   /**
    * Hook called when the form submission is successful.
-   * @param response - The Axios response from the server.
+   * @param response - The response from the server.
    */
-  onSuccess?: (response: AxiosResponse) => void;
+  onSuccess?: (response: TransportResponse<TResponse>) => void;
 
   /**
-   * Hook called when the form submission is canceled.
+   * Hook called when the form submission is canceled, either via cancel() or by the HTTP client.
    */
   onCanceled?: () => void;
 
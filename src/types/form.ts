@@ -1,8 +1,10 @@
+import { FormErrorBag, FormErrorKey, FormErrors } from './error';
 import { FormDataType } from './form-data';
 import { FormDataConvertible } from './form-data-convertible';
 import { FormOptions } from './form-options';
 import { Method } from './method';
 import { Progress } from './progress';
+import { SubmitResult } from './submit-result';
 
 /**
  * Interface for the Form class.
@@ -16,9 +18,14 @@ export interface Form<TForm extends FormDataType> extends Record<string, unknown
   readonly data: TForm;
 
   /**
-   * The form errors.
+   * The form errors (first message per field).
    */
-  errors: Partial<Record<keyof TForm | 'formError', string>>;
+  errors: FormErrors<TForm>;
+
+  /**
+   * Every error message per field.
+   */
+  errorBag: FormErrorBag<TForm>;
 
   /**
    * Indicates if the form is being processed.
@@ -41,24 +48,24 @@ export interface Form<TForm extends FormDataType> extends Record<string, unknown
   recentlySuccessful: boolean;
 
   /**
-   * Indicates if the form is dirty (has unsaved changes).
+   * Indicates if the form is dirty (has unsaved changes at any depth).
    */
-  isDirty: boolean;
+  readonly isDirty: boolean;
 
   /**
    * Set a specific error for a form field.
    * @param {keyof TForm} field - The form field.
-   * @param {string} message - The error message.
+   * @param {string | string[]} message - The error message or messages.
    * @returns {void}
    */
-  setError(field: keyof TForm, message: string): void;
+  setError(field: keyof TForm, message: string | string[]): void;
 
   /**
    * Set multiple errors for the form.
-   * @param {Partial<Record<keyof TForm, string>>} errors - The form errors.
+   * @param {Partial<Record<keyof TForm, string | string[]>>} errors - The form errors.
    * @returns {void}
    */
-  setErrors(errors: Partial<Record<keyof TForm, string>>): void;
+  setErrors(errors: Partial<Record<keyof TForm, string | string[]>>): void;
 
   /**
    * Clear all form errors.
@@ -66,6 +73,47 @@ export interface Form<TForm extends FormDataType> extends Record<string, unknown
    */
   clearErrors(): void;
 
+  /**
+   * Get every error message for a specific field path.
+   * @param {FormErrorKey<TForm>} field - The form field path.
+   * @returns {string[]} The error messages.
+   */
+  getErrors(field: FormErrorKey<TForm>): string[];
+
+  /**
+   * Get the first error message for a specific field path.
+   * @param {FormErrorKey<TForm>} field - The form field path.
+   * @returns {string | undefined} The first error message.
+   */
+  firstError(field: FormErrorKey<TForm>): string | undefined;
+
+  /**
+   * Get every error message of the form, keyed by field path.
+   * @returns {FormErrorBag<TForm>} The error messages.
+   */
+  allErrors(): FormErrorBag<TForm>;
+
+  /**
+   * Check if a specific field path has an error.
+   * @param {FormErrorKey<TForm>} field - The form field path, e.g. 'items.0.sku'.
+   * @returns {boolean} Whether the field has an error.
+   */
+  hasError(field: FormErrorKey<TForm>): boolean;
+
+  /**
+   * Get every error message at or beneath a path.
+   * @param {FormErrorKey<TForm>} path - The parent path, e.g. 'items'.
+   * @returns {FormErrorBag<TForm>} The matching errors.
+   */
+  errorsUnder(path: FormErrorKey<TForm>): FormErrorBag<TForm>;
+
+  /**
+   * Clear every error at or beneath a path.
+   * @param {FormErrorKey<TForm>} path - The parent path, e.g. 'address'.
+   * @returns {void}
+   */
+  clearErrorsUnder(path: FormErrorKey<TForm>): void;
+
   /**
    * Reset form data to defaults. Optionally reset specific fields.
    * @param {...(keyof TForm)[]} fields - The fields to reset.
@@ -89,61 +137,83 @@ export interface Form<TForm extends FormDataType> extends Record<string, unknown
   transform(callback: (data: TForm) => object): this;
 
   /**
-   * Submit the form with the specified method and URL using Axios.
+   * Submit the form with the specified method and URL using the form's transport.
    * @param {Method} method - The HTTP method.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  submit(method: Method, url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  submit<TResponse = any>(
+    method: Method,
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Submit the form with a GET request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  get(url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  get<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Submit the form with a POST request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  post(url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  post<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Submit the form with a PUT request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  put(url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  put<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Submit the form with a PATCH request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  patch(url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  patch<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Submit the form with a DELETE request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  delete(url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  delete<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Submit the form with an OPTIONS request.
    * @param {string} url - The URL to submit to.
    * @param {Partial<FormOptions<TForm>>} [options] - The form options.
-   * @returns {Promise<void>} A promise that resolves when the form is submitted.
+   * @returns {Promise<SubmitResult<TResponse, TForm>>} A promise resolving with the outcome of the submission.
    */
-  options(url: string, options?: Partial<FormOptions<TForm>>): Promise<void>;
+  options<TResponse = any>(
+    url: string,
+    options?: Partial<FormOptions<TForm, TResponse>>
+  ): Promise<SubmitResult<TResponse, TForm>>;
 
   /**
    * Cancel a form submission in progress.
@@ -0,0 +1,14 @@
+import { TransportRequest, TransportResponse } from './transport';
+
+/**
+ * Intercepts an outgoing request, mutating it or returning a replacement. Throwing fails the submission.
+ */
+export type RequestHook = (request: TransportRequest) => TransportRequest | void | Promise<TransportRequest | void>;
+
+/**
+ * Intercepts a successful response, mutating it or returning a replacement. Throwing fails the submission,
+ * like a failed request when a TransportError is thrown.
+ */
+export type ResponseHook<TResponse = any> = (
+  response: TransportResponse<TResponse>
+) => TransportResponse<TResponse> | void | Promise<TransportResponse<TResponse> | void>;
@@ -0,0 +1,49 @@
+/**
+ * The kind of value a size-based rule is applied to.
+ */
+export type ValueKind = 'numeric' | 'string' | 'array' | 'file';
+
+/**
+ * A message template, or one template per kind of value for size-based rules (like Laravel's `min.string`).
+ */
+export type MessageTemplate = string | Partial<Record<ValueKind, string>>;
+
+export interface MessageCatalog {
+  /**
+   * Messages for failed responses by HTTP status. 'server' covers the other 5xx statuses and 'default'
+   * any other status, with the `:status` placeholder.
+   */
+  status: { [status: number]: string; server: string; default: string };
+  /**
+   * Message for requests that received no response.
+   */
+  network: string;
+  /**
+   * Message for requests that exceeded their timeout.
+   */
+  timeout: string;
+  /**
+   * Message for failures that are not HTTP errors and carry no message of their own.
+   */
+  unexpected: string;
+  /**
+   * Message for validation rules that threw instead of returning a result, with `:attribute`.
+   */
+  ruleFailed: string;
+  /**
+   * Rule messages by rule name, with `:attribute` and the rule's placeholders.
+   */
+  rules: Record<string, MessageTemplate>;
+}
+
+/**
+ * Messages replacing part of a catalog.
+ */
+export interface MessageOverrides {
+  status?: Partial<MessageCatalog['status']>;
+  network?: string;
+  timeout?: string;
+  unexpected?: string;
+  ruleFailed?: string;
+  rules?: Record<string, MessageTemplate>;
+}
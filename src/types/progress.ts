@@ -1,6 +1,10 @@
-import { AxiosProgressEvent } from 'axios';
-
-export type Progress = { percentage: number } & AxiosProgressEvent;
+export interface Progress {
+  total: number;
+  loaded: number;
+  percentage: number;
+  bytes: number;
+  lengthComputable: boolean;
+}
 
 export interface FormProgress {
   upload?: Progress;
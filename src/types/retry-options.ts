@@ -0,0 +1,36 @@
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts, including the first request.
+   */
+  attempts: number;
+
+  /**
+   * The delay before the first retry in milliseconds, doubled for each further retry. Defaults to 500.
+   */
+  delay?: number;
+
+  /**
+   * The maximum delay in milliseconds. Defaults to 10000. Backoff delays are capped at it, while a response
+   * whose Retry-After asks to wait longer is not retried, so its failure is reported instead of waited out.
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomize each delay between half and all of its value, so clients don't retry in lockstep. Defaults to true.
+   */
+  jitter?: boolean;
+
+  /**
+   * The response statuses to retry, on top of network failures. Defaults to [408, 429, 500, 502, 503, 504].
+   * Validation failures (422) and cancellations are never retried.
+   */
+  statuses?: number[];
+
+  /**
+   * Hook called before each retry.
+   * @param attempt - The number of the upcoming attempt, starting at 2.
+   * @param error - The error of the failed attempt.
+   * @param delay - The milliseconds waited before the attempt.
+   */
+  onRetry?: (attempt: number, error: unknown, delay: number) => void;
+}
@@ -0,0 +1,30 @@
+/**
+ * Options controlling how form data is encoded into FormData and query strings.
+ */
+export interface SerializerOptions {
+  /**
+   * How array items are keyed: 'indices' gives `tags[0]`, 'brackets' gives `tags[]`. Defaults to 'indices'.
+   */
+  arrayFormat?: 'indices' | 'brackets';
+
+  /**
+   * How booleans are encoded: 'numeric' gives '1' / '0', 'string' gives 'true' / 'false'. Defaults to 'numeric'.
+   */
+  booleans?: 'numeric' | 'string';
+
+  /**
+   * How null and undefined values are handled: 'empty' appends '', 'skip' omits the field. Defaults to 'empty'.
+   */
+  nulls?: 'empty' | 'skip';
+
+  /**
+   * Formats dates into strings. Defaults to `date.toISOString()`.
+   */
+  dateFormatter?: (date: Date) => string;
+
+  /**
+   * How nested keys and array indices are written: 'brackets' gives `user[name]`, 'dots' gives `user.name`.
+   * Defaults to 'brackets'.
+   */
+  nesting?: 'brackets' | 'dots';
+}
@@ -0,0 +1,28 @@
+import { FormErrors } from './error';
+import { TransportResponse } from './transport';
+
+export interface SubmitSuccess<TResponse = any> {
+  ok: true;
+  /**
+   * The server response.
+   */
+  response: TransportResponse<TResponse>;
+}
+
+export interface SubmitFailure<TForm = any> {
+  ok: false;
+  /**
+   * The form errors after the failure, including 'formError' for non-validation failures.
+   */
+  errors: FormErrors<TForm>;
+  /**
+   * The HTTP status of the response, or null when no response was received (network failure,
+   * cancellation or a submission blocked by client-side validation).
+   */
+  status: number | null;
+}
+
+/**
+ * The outcome of a form submission.
+ */
+export type SubmitResult<TResponse = any, TForm = any> = SubmitSuccess<TResponse> | SubmitFailure<TForm>;
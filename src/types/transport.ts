@@ -0,0 +1,56 @@
+import { Method } from './method';
+
+/**
+ * Upload progress reported by a transport.
+ */
+export interface TransportProgressEvent {
+  loaded: number;
+  total?: number;
+  lengthComputable?: boolean;
+}
+
+export interface TransportRequest {
+  method: Method;
+  url: string;
+  data?: object | FormData;
+  params?: URLSearchParams;
+  headers: Record<string, string>;
+  /**
+   * Aborts the request when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Time in milliseconds after which the request fails with a 'timeout' error.
+   */
+  timeout?: number;
+  /**
+   * Called as the request body is uploaded, when the transport can observe it.
+   */
+  onUploadProgress?: (event: TransportProgressEvent) => void;
+}
+
+export interface TransportResponse<T = any> {
+  data: T;
+  status: number;
+  /**
+   * The response headers, with lowercase names.
+   */
+  headers: Record<string, any>;
+}
+
+/**
+ * Why a request failed: an error status, no response at all, an exceeded timeout or an aborted request.
+ */
+export type TransportErrorKind = 'http' | 'network' | 'timeout' | 'canceled';
+
+/**
+ * Sends the requests of a form, so forms are not tied to a particular HTTP client.
+ */
+export interface FormTransport {
+  /**
+   * Send a request.
+   * @param request - The request.
+   * @returns The response of a successful (2xx) request. Failures reject with a TransportError.
+   */
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
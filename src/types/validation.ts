@@ -1,6 +1,71 @@
 export interface ValidationRule {
-  validate: (value: any) => boolean | Promise<boolean>;
+  /**
+   * Checks the value of the field.
+   * @param value - The value of the field.
+   * @param data - The whole form data, for rules comparing fields.
+   * @param field - The dot-notation path of the field being validated.
+   * @param signal - Aborted when a newer validation of the field starts; pass it on to fetch() in async checks.
+   */
+  validate: (value: any, data: any, field: string, signal: AbortSignal) => boolean | Promise<boolean>;
+  /**
+   * The error message. Supports placeholders such as `:attribute`. When omitted, the
+   * message registered for the rule name is used.
+   */
+  message?: string;
+  /**
+   * The rule name, used to look up its default message (e.g. 'required', 'min').
+   */
+  name?: string;
+  /**
+   * Values interpolated into the message placeholders (e.g. `{ min: 8 }` for `:min`).
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Paths of other fields the rule reads. When one of them is validated, the field is
+   * validated again. A function receives the path of the field the rule is attached to.
+   */
+  dependsOn?: string[] | ((field: string) => string[]);
+}
+
+export interface FormRule<T extends object = any> {
+  /**
+   * Checks the whole form data.
+   * @param data - The form data.
+   * @param signal - Aborted when a newer validation starts.
+   */
+  validate: (data: T, signal: AbortSignal) => boolean | Promise<boolean>;
+  /**
+   * The error message.
+   */
   message: string;
+  /**
+   * The field the error is reported on. Defaults to 'formError'.
+   */
+  field?: keyof T | string;
+  /**
+   * Paths of the fields the rule reads. Validating one of them runs the rule again.
+   */
+  dependsOn?: Array<keyof T | string>;
+}
+
+/**
+ * When a field is validated automatically:
+ * - 'input': whenever the field is assigned
+ * - 'change': when the field is touched after its value changed, like the DOM change event
+ * - 'blur': whenever the field is touched
+ * - 'submit': only when the form is submitted
+ */
+export type ValidationTrigger = 'submit' | 'change' | 'blur' | 'input';
+
+export interface FieldValidationConfig {
+  /**
+   * When the field is validated, overriding the form's validateOn option.
+   */
+  validateOn?: ValidationTrigger;
+  /**
+   * Milliseconds to wait after the last trigger before validating, overriding the form's validateDebounce option.
+   */
+  debounce?: number;
 }
 
 export type ValidationRules<T extends object = any> = {
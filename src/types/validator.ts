@@ -0,0 +1,35 @@
+/**
+ * A single validation failure reported by a validator adapter.
+ */
+export interface ValidationIssue {
+  /**
+   * Dot-notation path of the invalid value, e.g. 'items.0.sku'. An empty path targets the form as a whole.
+   */
+  path: string;
+
+  /**
+   * The error message.
+   */
+  message: string;
+}
+
+/**
+ * Adapter letting a schema library (Zod, Yup, Valibot or a custom one) drive form validation.
+ * @template TForm - The type of the form data.
+ */
+export interface ValidatorAdapter<TForm = any> {
+  /**
+   * Validate the whole form data.
+   * @param data - The form data.
+   * @returns The validation issues, empty when the data is valid.
+   */
+  validate(data: TForm): ValidationIssue[] | Promise<ValidationIssue[]>;
+
+  /**
+   * Validate a single field. When omitted, the whole data is validated and issues are filtered by path.
+   * @param field - The dot-notation path of the field.
+   * @param data - The form data.
+   * @returns The validation issues of the field, empty when it is valid.
+   */
+  validateField?(field: string, data: TForm): ValidationIssue[] | Promise<ValidationIssue[]>;
+}
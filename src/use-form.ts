@@ -1,14 +1,31 @@
+import { AxiosInstance } from 'axios';
 import { reactive } from 'vue';
 
 import { Form } from './form';
+import { FormlinkConfig } from './types/config';
+import { FormTransport } from './types/transport';
 
 /**
  * useForm composable for managing form state and submissions.
  * @param {TForm} initialData - The initial form data.
+ * @param {FormTransport | AxiosInstance} [transport] - The transport, or the Axios instance, to send requests with.
  * @returns {object} Reactive form state and methods.
  */
-export function useForm<TForm extends Record<string, any>>(initialData: TForm) {
+export function useForm<TForm extends Record<string, any>>(
+  initialData: TForm,
+  transport?: FormTransport | AxiosInstance
+) {
   // Create an instance of the Form class, which already has reactive data
   // Use Vue's reactive system to expose the entire form instance
-  return reactive(new Form(initialData));
+  return reactive(new Form(initialData, transport));
+}
+
+/**
+ * Creates a useForm composable whose forms share a configuration, applied on top of the global one.
+ * @param {FormlinkConfig} config - The configuration.
+ * @returns {Function} The preconfigured useForm composable.
+ */
+export function createFormlink(config: FormlinkConfig) {
+  return <TForm extends Record<string, any>>(initialData: TForm, transport?: FormTransport | AxiosInstance) =>
+    reactive(new Form(initialData, transport, config));
 }
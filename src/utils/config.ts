@@ -0,0 +1,91 @@
+import { AxiosInstance } from 'axios';
+
+import { FormlinkConfig } from '@/types/config';
+import { FormTransport, TransportRequest, TransportResponse } from '@/types/transport';
+import { chainHooks } from './interceptors';
+import { mergeMessages } from './messages';
+
+/**
+ * The configuration every form starts from.
+ */
+let globalConfig: FormlinkConfig = {};
+
+/**
+ * Configures every form created from now on, merged with the configuration set before.
+ * @param {FormlinkConfig} config - The configuration.
+ * @returns {void}
+ */
+export function configureFormlink(config: FormlinkConfig): void {
+  globalConfig = mergeConfig(globalConfig, config);
+}
+
+/**
+ * Gets the global configuration.
+ * @returns {FormlinkConfig} The configuration.
+ */
+export function getFormlinkConfig(): FormlinkConfig {
+  return globalConfig;
+}
+
+/**
+ * Restores the built-in defaults.
+ * @returns {void}
+ */
+export function resetFormlinkConfig(): void {
+  globalConfig = {};
+}
+
+/**
+ * Merges a configuration into another. Headers and messages are merged and interceptors chained (request
+ * hooks of the base first, response hooks last); anything else is replaced.
+ * @param {FormlinkConfig} base - The base configuration.
+ * @param {FormlinkConfig} config - The configuration taking precedence.
+ * @returns {FormlinkConfig} The merged configuration.
+ */
+export function mergeConfig(base: FormlinkConfig, config: FormlinkConfig): FormlinkConfig {
+  const merged = { ...base, ...config };
+
+  if (base.headers && config.headers) {
+    merged.headers = () => ({ ...resolveHeaders(base.headers), ...resolveHeaders(config.headers) });
+  }
+  if (base.messages && config.messages) {
+    merged.messages = mergeMessages(base.messages, config.messages);
+  }
+  if (base.onRequest && config.onRequest) {
+    merged.onRequest = chainHooks(base.onRequest, config.onRequest);
+  }
+  if (base.onResponse && config.onResponse) {
+    merged.onResponse = chainHooks(config.onResponse, base.onResponse);
+  }
+
+  return merged;
+}
+
+/**
+ * Resolves the transport of a form. Axios instances, and Axios itself by default, are sent through an Axios
+ * transport loaded on the first request, so builds sending requests another way don't include Axios.
+ * @param {FormTransport | AxiosInstance} [transport] - The transport, or the Axios instance.
+ * @returns {FormTransport} The transport.
+ */
+export function resolveTransport(transport?: FormTransport | AxiosInstance): FormTransport {
+  if (transport && typeof transport !== 'function') {
+    return transport;
+  }
+
+  let loaded: Promise<FormTransport> | null = null;
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      loaded ??= import('@/transports/axios').then(({ axiosTransport }) => axiosTransport(transport));
+      return (await loaded).request<T>(request);
+    }
+  };
+}
+
+/**
+ * Resolves the configured headers of a request.
+ * @param {FormlinkConfig['headers']} [headers] - The configured headers.
+ * @returns {Record<string, string>} The headers.
+ */
+export function resolveHeaders(headers?: FormlinkConfig['headers']): Record<string, string> {
+  return typeof headers === 'function' ? headers() : { ...headers };
+}
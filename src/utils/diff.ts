@@ -0,0 +1,90 @@
+import { joinPath } from './path';
+
+/**
+ * Checks if a value is a plain object (not an array, date, file or class instance).
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} Whether the value is a plain object.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * Checks if a value can be descended into when comparing.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} Whether the value is an array or a plain object.
+ */
+function isTraversable(value: unknown): value is Record<string, unknown> | unknown[] {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+/**
+ * Deeply compares two values. Dates are compared by time, files and blobs by identity.
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} Whether the values are deeply equal.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isDeepEqual(a[key], b[key]));
+  }
+
+  return false;
+}
+
+/**
+ * Collects the dot-notation paths of every leaf that differs between two values.
+ * @param {unknown} current - The current value.
+ * @param {unknown} original - The original value.
+ * @param {string} [parent=''] - The path of the values being compared.
+ * @returns {string[]} The changed paths.
+ */
+export function diffPaths(current: unknown, original: unknown, parent: string = ''): string[] {
+  if (isDeepEqual(current, original)) return [];
+
+  if (isTraversable(current) && isTraversable(original) && Array.isArray(current) === Array.isArray(original)) {
+    const keys = new Set([...Object.keys(current), ...Object.keys(original)]);
+    return [...keys].flatMap((key) =>
+      diffPaths(
+        (current as Record<string, unknown>)[key],
+        (original as Record<string, unknown>)[key],
+        joinPath(parent, key)
+      )
+    );
+  }
+
+  return parent ? [parent] : [];
+}
+
+/**
+ * Builds the subtree of the current value that differs from the original.
+ * Plain objects are reduced to their changed keys; arrays and other values are kept whole.
+ * @param {Record<string, unknown>} current - The current object.
+ * @param {Record<string, unknown>} original - The original object.
+ * @returns {Record<string, unknown>} The changed subtree.
+ */
+export function diffObjects(
+  current: Record<string, unknown>,
+  original: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.keys(current).reduce<Record<string, unknown>>((acc, key) => {
+    const value = current[key];
+    const previous = original?.[key];
+
+    if (isDeepEqual(value, previous)) return acc;
+
+    acc[key] = isPlainObject(value) && isPlainObject(previous) ? diffObjects(value, previous) : value;
+    return acc;
+  }, {});
+}
@@ -1,27 +1,53 @@
 import { ApiValidationError } from '@/types/error';
 
 /**
- * Formats API validation errors into a standardized error object.
+ * Formats API validation errors into a standardized error object, keeping every message per field.
  * @param {ApiValidationError} validationError - The validation error from the API.
- * @returns {Record<string, string>} The formatted errors.
+ * @returns {Record<string, string[]>} The formatted errors.
  */
-export function formatValidationErrors(validationError: ApiValidationError): Record<string, string> {
-  return Object.entries(validationError.errors).reduce(
+export function formatValidationErrors(validationError: ApiValidationError): Record<string, string[]> {
+  return Object.entries(validationError.errors ?? {}).reduce(
     (acc, [key, messages]) => ({
       ...acc,
-      [key]: Array.isArray(messages) ? messages[0] : messages // Use the first error message if it's an array
+      [key]: Array.isArray(messages) ? [...messages] : [messages] // Some backends send a single message string
     }),
     {}
   );
 }
 
+/**
+ * Builds the first-message view of an error bag.
+ * @param {Record<string, string[]>} bag - The error messages keyed by field.
+ * @returns {Record<string, string>} The first error message of each field.
+ */
+export function firstErrorMessages(bag: Record<string, string[]>): Record<string, string> {
+  return Object.entries(bag).reduce(
+    (acc, [key, messages]) => (messages.length > 0 ? { ...acc, [key]: messages[0] } : acc),
+    {}
+  );
+}
+
 /**
  * Formats a general error into a standardized error object.
  * @param {unknown} error - The error object.
+ * @param {string} [fallback] - The message for errors without one.
  * @returns {Record<string, string>} The formatted error.
  */
-export function formatGeneralError(error: unknown): Record<string, string> {
+export function formatGeneralError(
+  error: unknown,
+  fallback: string = 'An unexpected error occurred'
+): Record<string, string> {
   return {
-    formError: error instanceof Error ? error.message : 'An unexpected error occurred'
+    formError: error instanceof Error ? error.message : fallback
   };
 }
+
+/**
+ * Reads the message a server sent along with an error response, like Laravel's `message` key.
+ * @param {unknown} data - The response body.
+ * @returns {string | null} The message, or null when there is none.
+ */
+export function getServerMessage(data: unknown): string | null {
+  const message = (data as Partial<ApiValidationError> | null)?.message;
+  return typeof message === 'string' && message !== '' ? message : null;
+}
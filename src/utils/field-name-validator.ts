@@ -44,7 +44,28 @@ export const reservedFieldNames: ReservedFieldNames[] = [
   ReservedFieldNames.PATCH_FORM,
   ReservedFieldNames.DELETE_FORM,
   ReservedFieldNames.OPTIONS_FORM,
-  ReservedFieldNames.MARK_RECENTLY_SUCCESSFUL
+  ReservedFieldNames.MARK_RECENTLY_SUCCESSFUL,
+  ReservedFieldNames.ERROR_BAG,
+  ReservedFieldNames.FORM_RULES,
+  ReservedFieldNames.VALIDATOR,
+  ReservedFieldNames.TOUCHED,
+  ReservedFieldNames.SUBMIT_COUNT,
+  ReservedFieldNames.VALIDATING,
+  ReservedFieldNames.VALIDATING_FIELDS,
+  ReservedFieldNames.ACTIVE_REQUESTS,
+  ReservedFieldNames.TRANSPORT,
+  ReservedFieldNames.CONFIG,
+  ReservedFieldNames.DEFAULT_OPTIONS,
+  ReservedFieldNames.PRECOGNITION,
+  ReservedFieldNames.MESSAGE_OVERRIDES,
+  ReservedFieldNames.LOCALE,
+  ReservedFieldNames.CHANGED_SINCE_TOUCH,
+  ReservedFieldNames.VALIDATION_CONTROLLERS,
+  ReservedFieldNames.VALIDATION_SUCCESSORS,
+  ReservedFieldNames.VALIDATION_SETTLED,
+  ReservedFieldNames.SUBMISSIONS,
+  ReservedFieldNames.LATEST_SUBMISSION,
+  ReservedFieldNames.CANCEL_GENERATION
 ];
 
 /**
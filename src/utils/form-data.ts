@@ -1,4 +1,16 @@
 import { FormDataConvertible } from '../types/form-data-convertible';
+import { SerializerOptions } from '../types/serializer-options';
+
+/**
+ * Default serializer options, matching what Laravel expects from a multipart request.
+ */
+export const defaultSerializerOptions: Required<SerializerOptions> = {
+  arrayFormat: 'indices',
+  booleans: 'numeric',
+  nulls: 'empty',
+  dateFormatter: (date: Date) => date.toISOString(),
+  nesting: 'brackets'
+};
 
 /**
  * Checks if the given value is an instance of FormData.
@@ -10,29 +22,48 @@ export const isFormData = (value: unknown): value is FormData => value instanceo
 /**
  * Converts an object to FormData.
  * @param source - The source object to convert.
+ * @param options - The serializer options, merged over the defaults.
  * @param form - The FormData instance to append to.
- * @param parentKey - The parent key for nested objects.
  * @returns The FormData instance with appended values.
  */
 export function objectToFormData(
   source: Record<string, FormDataConvertible> = {},
-  form: FormData = new FormData(),
-  parentKey: string | null = null
+  options: SerializerOptions = {},
+  form: FormData = new FormData()
 ): FormData {
+  const resolved = { ...defaultSerializerOptions, ...options };
+  appendObject(form, source, null, resolved);
+  return form;
+}
+
+/**
+ * Appends every entry of an object to the FormData instance.
+ * @param form - The FormData instance.
+ * @param source - The object to append.
+ * @param parentKey - The parent key for nested objects.
+ * @param options - The resolved serializer options.
+ */
+function appendObject(
+  form: FormData,
+  source: Record<string, FormDataConvertible>,
+  parentKey: string | null,
+  options: Required<SerializerOptions>
+): void {
   for (const [key, value] of Object.entries(source)) {
-    append(form, composeKey(parentKey, key), value);
+    append(form, composeKey(parentKey, key, options), value, options);
   }
-  return form;
 }
 
 /**
  * Composes a key for nested objects.
  * @param parent - The parent key.
  * @param key - The current key.
+ * @param options - The resolved serializer options.
  * @returns The composed key.
  */
-function composeKey(parent: string | null, key: string): string {
-  return parent ? `${parent}[${key}]` : key;
+function composeKey(parent: string | null, key: string, options: Required<SerializerOptions>): string {
+  if (!parent) return key;
+  return options.nesting === 'dots' ? `${parent}.${key}` : `${parent}[${key}]`;
 }
 
 /**
@@ -40,14 +71,22 @@ function composeKey(parent: string | null, key: string): string {
  * @param form - The FormData instance.
  * @param key - The key to append.
  * @param value - The value to append.
+ * @param options - The resolved serializer options.
  */
-function append(form: FormData, key: string, value: FormDataConvertible): void {
+function append(form: FormData, key: string, value: FormDataConvertible, options: Required<SerializerOptions>): void {
   switch (true) {
     case Array.isArray(value):
-      value.forEach((item, index) => append(form, composeKey(key, index.toString()), item));
+      value.forEach((item, index) =>
+        append(
+          form,
+          options.arrayFormat === 'brackets' ? `${key}[]` : composeKey(key, index.toString(), options),
+          item,
+          options
+        )
+      );
       break;
     case value instanceof Date:
-      form.append(key, value.toISOString());
+      form.append(key, options.dateFormatter(value));
       break;
     case value instanceof File:
       form.append(key, value, value.name);
@@ -56,16 +95,16 @@ function append(form: FormData, key: string, value: FormDataConvertible): void {
       form.append(key, value);
       break;
     case typeof value === 'boolean':
-      form.append(key, value ? '1' : '0');
+      form.append(key, options.booleans === 'string' ? String(value) : value ? '1' : '0');
       break;
     case typeof value === 'string' || typeof value === 'number':
       form.append(key, value.toString());
       break;
     case value === null || value === undefined:
-      form.append(key, '');
+      if (options.nulls === 'empty') form.append(key, '');
       break;
     case typeof value === 'object':
-      objectToFormData(value, form, key);
+      appendObject(form, value, key, options);
       break;
     default:
       throw new TypeError(`Unsupported value type: ${typeof value} for key: ${key}`);
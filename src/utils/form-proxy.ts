@@ -2,7 +2,6 @@ import { Form } from '@/form';
 import { NestedFormData } from '@/types/form-data';
 import { hasOwnProperty, keyExistsIn } from './object-helpers';
 import { guardAgainstReservedFieldName } from './field-name-validator';
-import { FormDataConvertible } from '@/types/form-data-convertible';
 
 /**
  * Creates a proxy for the form instance to allow for dynamic property access.
@@ -11,7 +10,7 @@ import { FormDataConvertible } from '@/types/form-data-convertible';
  */
 export function createFormProxy<TForm extends NestedFormData<TForm>>(instance: Form<TForm>): Form<TForm> {
   return new Proxy(instance, {
-    get(target, key: string) {
+    get(target, key: string, receiver) {
       // Check if the key exists in the form data first (most common case)
       if (keyExistsIn(target.data, key)) {
         return target.data[key as keyof TForm];
@@ -21,7 +20,11 @@ export function createFormProxy<TForm extends NestedFormData<TForm>>(instance: F
       const value = Reflect.get(target, key, target);
 
       if (typeof value === 'function') {
-        return value.bind(target);
+        // Methods run on the raw instance, but chaining methods hand back the proxy (or Vue's reactive wrapper)
+        return (...args: unknown[]) => {
+          const result = value.apply(target, args);
+          return result === target ? receiver : result;
+        };
       }
 
       // Check if the key exists on the instance itself
@@ -39,15 +42,11 @@ export function createFormProxy<TForm extends NestedFormData<TForm>>(instance: F
 
       guardAgainstReservedFieldName(key as string);
 
-      if (
-        keyExistsIn(target.data, key) &&
-        typeof key === 'string' &&
-        key in target.data &&
-        target.data[key as keyof TForm] !== value
-      ) {
-        target.setDefaults(key as keyof TForm, target.data[key as keyof TForm] as FormDataConvertible);
+      if (keyExistsIn(target.data, key) && typeof key === 'string' && key in target.data) {
+        // Dirty state is derived by comparing the data against the defaults
+        const previous = target.data[key as keyof TForm];
         target.data[key as keyof TForm] = value;
-        target.isDirty = true;
+        target.handleFieldChange(key as keyof TForm, previous);
         return true;
       }
 
@@ -1,7 +1,14 @@
 import { FormDataConvertible } from '@/types/form-data-convertible';
+import { Method } from '@/types/method';
 import { RequestPayload } from '@/types/request-payload';
+import { SerializerOptions } from '@/types/serializer-options';
 import { hasFiles } from './file';
-import { objectToFormData } from './form-data';
+import { isFormData, objectToFormData } from './form-data';
+
+/**
+ * Methods PHP does not parse multipart bodies for, which Laravel lets clients spoof via a `_method` field.
+ */
+const SPOOFABLE_METHODS: Method[] = ['put', 'patch', 'delete'];
 
 /**
  * Retrieves the CSRF token from the document meta tag.
@@ -21,19 +28,54 @@ export function getDefaultHeaders(): Record<string, string> {
   };
 }
 
+/**
+ * Prepends a base URL to a relative URL, leaving absolute URLs untouched.
+ * @param {string | undefined} baseURL - The base URL.
+ * @param {string} url - The URL.
+ * @returns {string} The full URL.
+ */
+export function joinUrl(baseURL: string | undefined, url: string): string {
+  if (!baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(url)) return url;
+
+  return `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
 /**
  * Prepares data for submission based on content type.
  * @param {TForm} data - The form data.
  * @param {((data: TForm) => object) | null} transformCallback - Optional data transformation.
+ * @param {SerializerOptions} [serializer] - Options for encoding multipart payloads.
  * @returns {object | FormData} The prepared data for submission.
  */
 export function prepareSubmissionData<TForm>(
   data: TForm,
-  transformCallback: ((data: TForm) => object) | null
+  transformCallback: ((data: TForm) => object) | null,
+  serializer?: SerializerOptions
 ): object | FormData {
   const preprocessedData = transformCallback ? transformCallback(data) : data;
 
-  return hasFiles(data as FormDataConvertible | RequestPayload)
-    ? objectToFormData(data as Record<string, FormDataConvertible>)
-    : (preprocessedData as object | FormData);
+  // Serialize the transformed payload, so transforms also apply to file uploads
+  if (isFormData(preprocessedData)) {
+    return preprocessedData;
+  }
+
+  return hasFiles(preprocessedData as FormDataConvertible | RequestPayload)
+    ? objectToFormData(preprocessedData as Record<string, FormDataConvertible>, serializer)
+    : (preprocessedData as object);
+}
+
+/**
+ * Sends multipart PUT/PATCH/DELETE payloads as POST with a `_method` field, which Laravel
+ * uses to route the request to the intended method. Other requests are left untouched.
+ * @param {Method} method - The intended HTTP method.
+ * @param {object | FormData} data - The prepared submission data.
+ * @returns {{ method: Method; data: object | FormData }} The method and data to send.
+ */
+export function spoofMethod(method: Method, data: object | FormData): { method: Method; data: object | FormData } {
+  if (!isFormData(data) || !SPOOFABLE_METHODS.includes(method)) {
+    return { method, data };
+  }
+
+  data.append('_method', method);
+  return { method: 'post', data };
 }
@@ -0,0 +1,19 @@
+/**
+ * Chains hooks into one, each receiving the value returned by the previous one (or the same value when
+ * a hook returns nothing).
+ * @param {Array<Function | undefined>} hooks - The hooks, in the order they run. Missing hooks are skipped.
+ * @returns {Function | undefined} The chained hook, or undefined without any hook.
+ */
+export function chainHooks<T>(
+  ...hooks: Array<((value: T) => T | void | Promise<T | void>) | undefined>
+): ((value: T) => Promise<T>) | undefined {
+  const defined = hooks.filter((hook) => hook !== undefined) as Array<(value: T) => T | void | Promise<T | void>>;
+  if (defined.length === 0) return undefined;
+
+  return async (value: T): Promise<T> => {
+    for (const hook of defined) {
+      value = (await hook(value)) ?? value;
+    }
+    return value;
+  };
+}
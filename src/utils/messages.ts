@@ -0,0 +1,211 @@
+import { MessageCatalog, MessageOverrides, MessageTemplate, ValueKind } from '@/types/messages';
+import { ValidationRule } from '@/types/validation';
+
+/**
+ * Default rule messages, worded after Laravel's validation language file.
+ */
+export const defaultRuleMessages: Record<string, MessageTemplate> = {
+  required: 'The :attribute field is required.',
+  email: 'The :attribute field must be a valid email address.',
+  min: {
+    numeric: 'The :attribute field must be at least :min.',
+    string: 'The :attribute field must be at least :min characters.',
+    array: 'The :attribute field must have at least :min items.',
+    file: 'The :attribute field must be at least :min kilobytes.'
+  },
+  max: {
+    numeric: 'The :attribute field must not be greater than :max.',
+    string: 'The :attribute field must not be greater than :max characters.',
+    array: 'The :attribute field must not have more than :max items.',
+    file: 'The :attribute field must not be greater than :max kilobytes.'
+  },
+  between: {
+    numeric: 'The :attribute field must be between :min and :max.',
+    string: 'The :attribute field must be between :min and :max characters.',
+    array: 'The :attribute field must have between :min and :max items.',
+    file: 'The :attribute field must be between :min and :max kilobytes.'
+  },
+  regex: 'The :attribute field format is invalid.',
+  in: 'The selected :attribute is invalid.',
+  confirmed: 'The :attribute field confirmation does not match.',
+  same: 'The :attribute field must match :other.',
+  date: 'The :attribute field must be a valid date.',
+  after: 'The :attribute field must be a date after :date.',
+  before: 'The :attribute field must be a date before :date.',
+  numeric: 'The :attribute field must be a number.',
+  url: 'The :attribute field must be a valid URL.',
+  mimes: 'The :attribute field must be a file of type: :values.',
+  maxFileSize: 'The :attribute field must not be greater than :max kilobytes.',
+  invalid: 'The :attribute field is invalid.'
+};
+
+/**
+ * The built-in English catalog, used for any message a locale does not define.
+ */
+export const defaultMessages: MessageCatalog = {
+  status: {
+    401: 'Authentication required. Please log in and try again.',
+    403: 'You do not have permission to perform this action.',
+    404: 'The requested resource was not found.',
+    server: 'Server error. Please try again later.',
+    default: 'Server returned an error (:status). Please try again.'
+  },
+  network: 'Network error. Please check your connection and try again.',
+  timeout: 'The request timed out. Please try again.',
+  unexpected: 'An unexpected error occurred',
+  ruleFailed: 'Validation error occurred',
+  rules: defaultRuleMessages
+};
+
+/**
+ * Messages registered per locale.
+ */
+const localeMessages: Record<string, MessageOverrides> = {};
+
+/**
+ * The locale forms use unless they set their own.
+ */
+let currentLocale = 'en';
+
+/**
+ * Registers the messages of a locale, merged with any registered before. Missing messages fall
+ * back to the built-in English ones.
+ * @param {string} locale - The locale, e.g. 'fr'.
+ * @param {MessageOverrides} messages - The messages.
+ * @returns {void}
+ */
+export function registerMessages(locale: string, messages: MessageOverrides): void {
+  localeMessages[locale] = mergeMessages(localeMessages[locale] ?? {}, messages);
+}
+
+/**
+ * Switches the locale used by every form that does not set its own.
+ * @param {string} locale - The locale.
+ * @returns {void}
+ */
+export function setLocale(locale: string): void {
+  currentLocale = locale;
+}
+
+/**
+ * Gets the global locale.
+ * @returns {string} The locale.
+ */
+export function getLocale(): string {
+  return currentLocale;
+}
+
+/**
+ * Builds the catalog of a locale, with per-form overrides applied on top.
+ * @param {string} [locale] - The locale, the global one by default.
+ * @param {MessageOverrides} [overrides] - Messages replacing the locale's.
+ * @returns {MessageCatalog} The catalog.
+ */
+export function resolveMessages(locale: string = currentLocale, overrides: MessageOverrides = {}): MessageCatalog {
+  return mergeMessages(mergeMessages(defaultMessages, localeMessages[locale] ?? {}), overrides) as MessageCatalog;
+}
+
+/**
+ * Merges message overrides into a catalog, one level deep for status and rule messages.
+ * @param {T} base - The base messages.
+ * @param {MessageOverrides} overrides - The messages replacing the base ones.
+ * @returns {T} The merged messages.
+ */
+export function mergeMessages<T extends MessageOverrides>(base: T, overrides: MessageOverrides): T {
+  return {
+    ...base,
+    ...overrides,
+    status: { ...base.status, ...overrides.status },
+    rules: { ...base.rules, ...overrides.rules }
+  };
+}
+
+/**
+ * Resolves the message of a failed response from its status.
+ * @param {MessageCatalog} messages - The catalog.
+ * @param {number} status - The HTTP status.
+ * @returns {string} The formatted message.
+ */
+export function resolveStatusMessage(messages: MessageCatalog, status: number): string {
+  const template = messages.status[status] ?? (status >= 500 ? messages.status.server : messages.status.default);
+  return formatMessage(template, { status });
+}
+
+/**
+ * Determines the kind of a value, which selects the message of size-based rules.
+ * @param {unknown} value - The value.
+ * @returns {ValueKind} The kind of value.
+ */
+export function valueKind(value: unknown): ValueKind {
+  if (typeof value === 'number') return 'numeric';
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return 'file';
+  if (Array.isArray(value) || (typeof FileList !== 'undefined' && value instanceof FileList)) return 'array';
+  return 'string';
+}
+
+/**
+ * Turns a field path into a readable attribute name, e.g. 'items.0.unit_price' becomes 'unit price'.
+ * @param {string} field - The field path.
+ * @returns {string} The attribute name.
+ */
+export function humanizeField(field: string): string {
+  const segments = field.split('.').filter((segment) => !/^\d+$/.test(segment));
+  const last = segments[segments.length - 1] ?? field;
+  return last
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .toLowerCase();
+}
+
+/**
+ * Replaces `:placeholder` tokens in a message with the given values. Unknown tokens are left as-is.
+ * @param {string} template - The message template.
+ * @param {Record<string, unknown>} params - The placeholder values.
+ * @returns {string} The formatted message.
+ */
+export function formatMessage(template: string, params: Record<string, unknown> = {}): string {
+  return template.replace(/:([A-Za-z_]+)/g, (token, key: string) => (key in params ? formatParam(params[key]) : token));
+}
+
+/**
+ * Formats a placeholder value for display.
+ * @param {unknown} value - The value.
+ * @returns {string} The formatted value.
+ */
+function formatParam(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+}
+
+/**
+ * Resolves the error message of a failed rule.
+ * @param {ValidationRule} rule - The failed rule.
+ * @param {string} field - The field path.
+ * @param {unknown} value - The field value.
+ * @param {Record<string, MessageTemplate>} [templates] - The rule messages, the English ones by default.
+ * @returns {string} The formatted message.
+ */
+export function resolveRuleMessage(
+  rule: ValidationRule,
+  field: string,
+  value: unknown,
+  templates: Record<string, MessageTemplate> = defaultRuleMessages
+): string {
+  const template = rule.message ?? pickTemplate(templates[rule.name ?? 'invalid'], value);
+  return formatMessage(template ?? pickTemplate(templates.invalid, value) ?? (defaultRuleMessages.invalid as string), {
+    attribute: humanizeField(field),
+    ...rule.params
+  });
+}
+
+/**
+ * Picks the template matching the kind of value.
+ * @param {MessageTemplate | undefined} template - The message template.
+ * @param {unknown} value - The field value.
+ * @returns {string | undefined} The template string.
+ */
+function pickTemplate(template: MessageTemplate | undefined, value: unknown): string | undefined {
+  if (template === undefined || typeof template === 'string') return template;
+  return template[valueKind(value)] ?? template.string;
+}
@@ -0,0 +1,41 @@
+/**
+ * Splits a dot-notation path into its segments.
+ * @param {string} path - The path, e.g. 'items.0.sku'.
+ * @returns {string[]} The path segments.
+ */
+export function splitPath(path: string): string[] {
+  return path === '' ? [] : path.split('.');
+}
+
+/**
+ * Joins a parent path and a key into a dot-notation path.
+ * @param {string} parent - The parent path, empty for the root.
+ * @param {string | number} key - The key to append.
+ * @returns {string} The joined path.
+ */
+export function joinPath(parent: string, key: string | number): string {
+  return parent ? `${parent}.${key}` : String(key);
+}
+
+/**
+ * Checks whether a path equals a parent path or is nested beneath it.
+ * @param {string} path - The path to check, e.g. 'items.0.sku'.
+ * @param {string} parent - The parent path, e.g. 'items'.
+ * @returns {boolean} Whether the path is within the parent.
+ */
+export function isPathWithin(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(`${parent}.`);
+}
+
+/**
+ * Reads the value at a dot-notation path.
+ * @param {unknown} source - The object to read from.
+ * @param {string} path - The path to read.
+ * @returns {unknown} The value, or undefined when the path does not exist.
+ */
+export function getValueAtPath(source: unknown, path: string): unknown {
+  return splitPath(path).reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') return undefined;
+    return (current as Record<string, unknown>)[segment];
+  }, source);
+}
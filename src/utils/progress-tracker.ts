@@ -1,12 +1,12 @@
 import { Progress } from '@/types/progress';
-import { AxiosProgressEvent } from 'axios';
+import { TransportProgressEvent } from '@/types/transport';
 
 /**
  * Creates a progress object from an upload progress event.
- * @param {AxiosProgressEvent} event - The progress event.
+ * @param {TransportProgressEvent} event - The progress event.
  * @returns {Progress} The progress object.
  */
-export function createProgressObject(event: AxiosProgressEvent): Progress {
+export function createProgressObject(event: TransportProgressEvent): Progress {
   return {
     total: event.total || 0,
     loaded: event.loaded,
@@ -0,0 +1,67 @@
+import { FormDataConvertible } from '../types/form-data-convertible';
+import { SerializerOptions } from '../types/serializer-options';
+import { isFormData, objectToFormData } from './form-data';
+
+/**
+ * How submitted data is combined with query parameters already present in the URL.
+ */
+export type QueryMode = 'merge' | 'replace';
+
+/**
+ * Converts data into URL search params, using the same bracket notation as objectToFormData
+ * (e.g. `filters[status]=open&tags[0]=a`). Files and blobs cannot be sent in a URL and are skipped.
+ * @param {object | FormData} data - The data to convert.
+ * @param {SerializerOptions} [serializer] - Options for encoding the values.
+ * @returns {URLSearchParams} The search params.
+ */
+export function toSearchParams(data: object | FormData, serializer?: SerializerOptions): URLSearchParams {
+  const formData = isFormData(data)
+    ? data
+    : objectToFormData(data as Record<string, FormDataConvertible>, serializer);
+  const params = new URLSearchParams();
+
+  formData.forEach((value, key) => {
+    if (typeof value === 'string') {
+      params.append(key, value);
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Separates the query string of a URL and combines it with the submitted data.
+ * @param {string} url - The URL, absolute or relative.
+ * @param {object | FormData} data - The data to serialize into the query string.
+ * @param {QueryMode} [mode='merge'] - Whether to merge with or replace the existing query parameters.
+ * @param {SerializerOptions} [serializer] - Options for encoding the values.
+ * @returns {{ url: string; params: URLSearchParams }} The URL without its query string and the params to send.
+ */
+export function resolveQueryParams(
+  url: string,
+  data: object | FormData,
+  mode: QueryMode = 'merge',
+  serializer?: SerializerOptions
+): { url: string; params: URLSearchParams } {
+  const [withoutHash, hash] = splitOnce(url, '#');
+  const [path, search] = splitOnce(withoutHash, '?');
+  const submitted = toSearchParams(data, serializer);
+  const params = new URLSearchParams(mode === 'merge' ? search : '');
+
+  // Submitted values win over parameters of the same name already in the URL
+  new Set(submitted.keys()).forEach((key) => params.delete(key));
+  submitted.forEach((value, key) => params.append(key, value));
+
+  return { url: hash !== undefined ? `${path}#${hash}` : path, params };
+}
+
+/**
+ * Splits a string at the first occurrence of a separator.
+ * @param {string} value - The string to split.
+ * @param {string} separator - The separator.
+ * @returns {[string, string | undefined]} The part before and after the separator.
+ */
+function splitOnce(value: string, separator: string): [string, string | undefined] {
+  const index = value.indexOf(separator);
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
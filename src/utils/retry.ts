@@ -0,0 +1,119 @@
+import { isTransportError, TransportError } from '@/transport-error';
+import { RetryOptions } from '@/types/retry-options';
+import { clearTimeout, createTimeout } from './timeout';
+
+/**
+ * Statuses worth retrying by default: timeouts, rate limiting and transient server errors.
+ */
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Normalizes the retry option, where a number is the maximum number of attempts.
+ * @param {number | RetryOptions} [retry] - The retry option.
+ * @returns {RetryOptions | null} The retry options, or null when requests are not retried.
+ */
+export function resolveRetryOptions(retry?: number | RetryOptions): RetryOptions | null {
+  const options = typeof retry === 'number' ? { attempts: retry } : retry;
+  return options && options.attempts > 1 ? options : null;
+}
+
+/**
+ * Checks whether a failed request should be retried: network failures and the configured statuses are,
+ * validation failures, cancellations and responses asking to wait longer than maxDelay never are.
+ * @param {unknown} error - The request error.
+ * @param {RetryOptions} options - The retry options.
+ * @returns {boolean} Whether to retry.
+ */
+export function isRetryable(error: unknown, options: RetryOptions): boolean {
+  if (!isTransportError(error) || error.kind === 'canceled') return false;
+
+  const status = error.response?.status;
+  if (error.kind !== 'http' || status === undefined) return true;
+  if (status === 422) return false;
+  if ((getRetryAfter(error) ?? 0) > (options.maxDelay ?? 10000)) return false;
+
+  return (options.statuses ?? DEFAULT_RETRY_STATUSES).includes(status);
+}
+
+/**
+ * Reads the delay requested by a Retry-After header, given in seconds or as an HTTP date.
+ * @param {unknown} error - The request error.
+ * @returns {number | null} The delay in milliseconds, or null without a valid header.
+ */
+export function getRetryAfter(error: unknown): number | null {
+  const header = isTransportError(error) ? error.response?.headers?.['retry-after'] : undefined;
+  if (header === undefined || header === null || header === '') return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the delay before a retry: the server's Retry-After when given, otherwise an exponential
+ * backoff capped at maxDelay, with jitter.
+ * @param {number} retry - The number of the retry, starting at 1.
+ * @param {RetryOptions} options - The retry options.
+ * @param {unknown} [error] - The error of the failed attempt.
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(retry: number, options: RetryOptions, error?: unknown): number {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== null) return retryAfter;
+
+  const backoff = Math.min((options.delay ?? 500) * 2 ** (retry - 1), options.maxDelay ?? 10000);
+  return options.jitter === false ? backoff : Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+/**
+ * Waits before a retry, rejecting with a cancellation as soon as the request is aborted.
+ * @param {number} delay - The delay in milliseconds.
+ * @param {AbortSignal} [signal] - The signal of the request.
+ * @returns {Promise<void>} A promise resolving after the delay.
+ */
+export function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const canceled = () => new TransportError('canceled', 'The request was canceled.');
+    if (signal?.aborted) {
+      reject(canceled());
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(canceled());
+    };
+    const timeoutId = createTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a request, retrying it as configured until it succeeds, fails with a non-retryable error or
+ * runs out of attempts.
+ * @param {() => Promise<T>} request - Sends the request.
+ * @param {RetryOptions | null} options - The retry options, or null to send the request once.
+ * @param {(attempt: number, error: unknown, delay: number) => Promise<void>} beforeRetry - Called before each
+ * retry, resolving once the retry may be sent.
+ * @returns {Promise<T>} The result of the first successful attempt.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions | null,
+  beforeRetry: (attempt: number, error: unknown, delay: number) => Promise<void>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error: unknown) {
+      if (!options || attempt >= options.attempts || !isRetryable(error, options)) throw error;
+
+      await beforeRetry(attempt + 1, error, getRetryDelay(attempt, options, error));
+    }
+  }
+}
@@ -0,0 +1,361 @@
+import { ValidationRule } from '@/types/validation';
+import { getValueAtPath } from '@/utils/path';
+import { humanizeField } from '@/utils/messages';
+
+/**
+ * Checks if a value is empty the way Laravel's `required` rule sees it.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} Whether the value is empty.
+ */
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof FileList !== 'undefined' && value instanceof FileList) return value.length === 0;
+  return false;
+}
+
+/**
+ * Creates a rule that, like every Laravel rule except `required`, passes when the value is empty.
+ * @param {string} name - The rule name.
+ * @param {(value: any, data: any, field: string) => boolean} check - The check to run on non-empty values.
+ * @param {Record<string, unknown>} [params] - The message placeholder values.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+function createRule(
+  name: string,
+  check: (value: any, data: any, field: string) => boolean,
+  params?: Record<string, unknown>,
+  message?: string
+): ValidationRule {
+  return {
+    name,
+    params,
+    message,
+    validate: (value, data, field) => isEmpty(value) || check(value, data, field)
+  };
+}
+
+/**
+ * Measures a value the way Laravel's size rules do: numbers by value, strings by length,
+ * arrays by count and files by kilobytes.
+ * @param {unknown} value - The value to measure.
+ * @returns {number} The size.
+ */
+function sizeOf(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return value.size / 1024;
+  if (Array.isArray(value) || (typeof FileList !== 'undefined' && value instanceof FileList)) return value.length;
+  return String(value).length;
+}
+
+/**
+ * Parses a date from a Date instance, a timestamp or a date string.
+ * @param {unknown} value - The value to parse.
+ * @returns {Date | null} The date, or null when the value is not a valid date.
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Resolves the date a field is compared with: another field of the form when the reference is a
+ * field path present in the data, otherwise the reference itself.
+ * @param {Date | string} reference - A date, a date string or a field path.
+ * @param {any} data - The form data.
+ * @returns {Date | null} The date to compare with.
+ */
+function resolveDate(reference: Date | string, data: any): Date | null {
+  if (typeof reference === 'string' && getValueAtPath(data, reference) !== undefined) {
+    return toDate(getValueAtPath(data, reference));
+  }
+  return toDate(reference);
+}
+
+/**
+ * Describes a date reference for messages.
+ * @param {Date | string} reference - A date, a date string or a field path.
+ * @returns {string | Date} The description.
+ */
+function describeDate(reference: Date | string): string | Date {
+  return typeof reference === 'string' && toDate(reference) === null ? humanizeField(reference) : reference;
+}
+
+/**
+ * Collects the files of a value.
+ * @param {unknown} value - A file, a list of files or an array of files.
+ * @returns {File[]} The files.
+ */
+function filesOf(value: unknown): File[] {
+  if (typeof File !== 'undefined' && value instanceof File) return [value];
+  if (Array.isArray(value) || (typeof FileList !== 'undefined' && value instanceof FileList)) {
+    return Array.from(value as ArrayLike<unknown>).filter((item): item is File => item instanceof File);
+  }
+  return [];
+}
+
+/**
+ * The field under validation must be present and not empty.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function required(message?: string): ValidationRule {
+  return { name: 'required', message, validate: (value) => !isEmpty(value) };
+}
+
+/**
+ * The field under validation must be formatted as an email address.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function email(message?: string): ValidationRule {
+  return createRule('email', (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value)), undefined, message);
+}
+
+/**
+ * The field under validation must have a minimum size (value, length, count or kilobytes).
+ * @param {number} min - The minimum size.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function min(min: number, message?: string): ValidationRule {
+  return createRule('min', (value) => sizeOf(value) >= min, { min }, message);
+}
+
+/**
+ * The field under validation must not exceed a maximum size (value, length, count or kilobytes).
+ * @param {number} max - The maximum size.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function max(max: number, message?: string): ValidationRule {
+  return createRule('max', (value) => sizeOf(value) <= max, { max }, message);
+}
+
+/**
+ * The field under validation must have a size between the given minimum and maximum (inclusive).
+ * @param {number} min - The minimum size.
+ * @param {number} max - The maximum size.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function between(min: number, max: number, message?: string): ValidationRule {
+  return createRule('between', (value) => sizeOf(value) >= min && sizeOf(value) <= max, { min, max }, message);
+}
+
+/**
+ * The field under validation must match the given regular expression.
+ * @param {RegExp} pattern - The pattern.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function regex(pattern: RegExp, message?: string): ValidationRule {
+  return createRule(
+    'regex',
+    (value) => {
+      pattern.lastIndex = 0;
+      return pattern.test(String(value));
+    },
+    undefined,
+    message
+  );
+}
+
+/**
+ * The field under validation must be included in the given list of values.
+ * Array values must only contain allowed values.
+ * @param {unknown[]} values - The allowed values.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function oneOf(values: unknown[], message?: string): ValidationRule {
+  return createRule(
+    'in',
+    (value) => (Array.isArray(value) ? value : [value]).every((item) => values.includes(item)),
+    { values },
+    message
+  );
+}
+
+/**
+ * The field under validation must have a matching `{field}_confirmation` field.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function confirmed(message?: string): ValidationRule {
+  return {
+    ...createRule(
+      'confirmed',
+      (value, data, field) => getValueAtPath(data, `${field}_confirmation`) === value,
+      undefined,
+      message
+    ),
+    dependsOn: (field) => [`${field}_confirmation`]
+  };
+}
+
+/**
+ * The field under validation must match the given field.
+ * @param {string} other - The path of the other field.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function same(other: string, message?: string): ValidationRule {
+  return {
+    ...createRule(
+      'same',
+      (value, data) => getValueAtPath(data, other) === value,
+      { other: humanizeField(other) },
+      message
+    ),
+    dependsOn: [other]
+  };
+}
+
+/**
+ * The field under validation must be a valid date.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function date(message?: string): ValidationRule {
+  return createRule('date', (value) => toDate(value) !== null, undefined, message);
+}
+
+/**
+ * The field under validation must be a date after the given date or the date in another field.
+ * @param {Date | string} reference - A date, a date string or a field path.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function after(reference: Date | string, message?: string): ValidationRule {
+  return {
+    ...createRule(
+      'after',
+      (value, data) => {
+        const current = toDate(value);
+        const limit = resolveDate(reference, data);
+        return current !== null && limit !== null && current.getTime() > limit.getTime();
+      },
+      { date: describeDate(reference) },
+      message
+    ),
+    dependsOn: typeof reference === 'string' ? [reference] : []
+  };
+}
+
+/**
+ * The field under validation must be a date before the given date or the date in another field.
+ * @param {Date | string} reference - A date, a date string or a field path.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function before(reference: Date | string, message?: string): ValidationRule {
+  return {
+    ...createRule(
+      'before',
+      (value, data) => {
+        const current = toDate(value);
+        const limit = resolveDate(reference, data);
+        return current !== null && limit !== null && current.getTime() < limit.getTime();
+      },
+      { date: describeDate(reference) },
+      message
+    ),
+    dependsOn: typeof reference === 'string' ? [reference] : []
+  };
+}
+
+/**
+ * The field under validation must be numeric.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function numeric(message?: string): ValidationRule {
+  return createRule(
+    'numeric',
+    (value) =>
+      typeof value === 'number' ? isFinite(value) : /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(String(value).trim()),
+    undefined,
+    message
+  );
+}
+
+/**
+ * The field under validation must be a valid URL.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function url(message?: string): ValidationRule {
+  return createRule(
+    'url',
+    (value) => {
+      try {
+        return Boolean(new URL(String(value)).host);
+      } catch {
+        return false;
+      }
+    },
+    undefined,
+    message
+  );
+}
+
+/**
+ * The file under validation must have one of the given extensions.
+ * @param {string[]} extensions - The allowed extensions, e.g. ['jpg', 'png'].
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function mimes(extensions: string[], message?: string): ValidationRule {
+  const allowed = extensions.map((extension) => extension.toLowerCase());
+  // Laravel treats jpg and jpeg as the same type
+  if (allowed.includes('jpg') || allowed.includes('jpeg')) allowed.push('jpg', 'jpeg');
+
+  return createRule(
+    'mimes',
+    (value) => filesOf(value).every((file) => allowed.includes(file.name.split('.').pop()?.toLowerCase() ?? '')),
+    { values: extensions },
+    message
+  );
+}
+
+/**
+ * The file under validation must not be larger than the given number of kilobytes.
+ * @param {number} kilobytes - The maximum file size in kilobytes.
+ * @param {string} [message] - A custom message.
+ * @returns {ValidationRule} The rule.
+ */
+export function maxFileSize(kilobytes: number, message?: string): ValidationRule {
+  return createRule(
+    'maxFileSize',
+    (value) => filesOf(value).every((file) => file.size / 1024 <= kilobytes),
+    { max: kilobytes },
+    message
+  );
+}
+
+/**
+ * Ready-made rules mirroring Laravel's validation rules.
+ */
+export const rules = {
+  required,
+  email,
+  min,
+  max,
+  between,
+  regex,
+  in: oneOf,
+  confirmed,
+  same,
+  date,
+  after,
+  before,
+  numeric,
+  url,
+  mimes,
+  maxFileSize
+};
@@ -0,0 +1,41 @@
+import { ValidationIssue, ValidatorAdapter } from '@/types/validator';
+
+/**
+ * The subset of a Valibot issue used by the adapter.
+ */
+interface ValibotLikeIssue {
+  message: string;
+  path?: Array<{ key: unknown }>;
+}
+
+/**
+ * Valibot's `safeParse` or `safeParseAsync` function. Valibot exposes parsing as standalone functions,
+ * so the adapter receives the one to use instead of importing the library.
+ */
+export type ValibotSafeParse<TSchema> = (
+  schema: TSchema,
+  input: unknown
+) => { success: boolean; issues?: ValibotLikeIssue[] } | Promise<{ success: boolean; issues?: ValibotLikeIssue[] }>;
+
+/**
+ * Creates a validator adapter backed by a Valibot schema.
+ * @param {TSchema} schema - The Valibot schema.
+ * @param {ValibotSafeParse<TSchema>} safeParse - Valibot's `safeParseAsync` (or `safeParse`) function.
+ * @returns {ValidatorAdapter<TForm>} The validator adapter.
+ */
+export function valibotValidator<TForm = any, TSchema = unknown>(
+  schema: TSchema,
+  safeParse: ValibotSafeParse<TSchema>
+): ValidatorAdapter<TForm> {
+  return {
+    async validate(data: TForm): Promise<ValidationIssue[]> {
+      const result = await safeParse(schema, data);
+      if (result.success) return [];
+
+      return (result.issues ?? []).map((issue) => ({
+        path: (issue.path ?? []).map((item) => String(item.key)).join('.'),
+        message: issue.message
+      }));
+    }
+  };
+}
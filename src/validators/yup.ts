@@ -0,0 +1,65 @@
+import { ValidationIssue, ValidatorAdapter } from '@/types/validator';
+
+/**
+ * The subset of a Yup ValidationError used by the adapter.
+ */
+interface YupLikeError {
+  name: string;
+  path?: string;
+  message: string;
+  inner?: YupLikeError[];
+}
+
+/**
+ * The subset of a Yup schema used by the adapter.
+ */
+export interface YupLikeSchema {
+  validate(data: unknown, options: { abortEarly: boolean }): Promise<unknown>;
+  validateAt?(path: string, data: unknown, options: { abortEarly: boolean }): Promise<unknown>;
+}
+
+/**
+ * Converts a Yup path such as `items[0].sku` or `meta["key"]` to dot notation.
+ * @param {string} [path] - The Yup path.
+ * @returns {string} The dot-notation path.
+ */
+function normalizePath(path: string = ''): string {
+  return path.replace(/\[["']?([^\]"']+)["']?\]/g, '.$1').replace(/^\./, '');
+}
+
+/**
+ * Runs a Yup validation and converts a ValidationError into issues. Other errors are rethrown.
+ * @param {() => Promise<unknown>} run - The validation to run.
+ * @returns {Promise<ValidationIssue[]>} The validation issues.
+ */
+async function collectIssues(run: () => Promise<unknown>): Promise<ValidationIssue[]> {
+  try {
+    await run();
+    return [];
+  } catch (error: unknown) {
+    const validationError = error as YupLikeError;
+    if (validationError?.name !== 'ValidationError') throw error;
+
+    const errors = validationError.inner?.length ? validationError.inner : [validationError];
+    return errors.map((inner) => ({ path: normalizePath(inner.path), message: inner.message }));
+  }
+}
+
+/**
+ * Creates a validator adapter backed by a Yup schema.
+ * @param {YupLikeSchema} schema - The Yup schema.
+ * @returns {ValidatorAdapter<TForm>} The validator adapter.
+ */
+export function yupValidator<TForm = any>(schema: YupLikeSchema): ValidatorAdapter<TForm> {
+  const adapter: ValidatorAdapter<TForm> = {
+    validate: (data: TForm) => collectIssues(() => schema.validate(data, { abortEarly: false }))
+  };
+
+  if (schema.validateAt) {
+    const validateAt = schema.validateAt.bind(schema);
+    adapter.validateField = (field: string, data: TForm) =>
+      collectIssues(() => validateAt(field, data, { abortEarly: false }));
+  }
+
+  return adapter;
+}
@@ -0,0 +1,31 @@
+import { ValidationIssue, ValidatorAdapter } from '@/types/validator';
+
+/**
+ * The subset of a Zod schema used by the adapter.
+ */
+export interface ZodLikeSchema {
+  safeParseAsync(
+    data: unknown
+  ): Promise<
+    { success: true } | { success: false; error: { issues: Array<{ path: PropertyKey[]; message: string }> } }
+  >;
+}
+
+/**
+ * Creates a validator adapter backed by a Zod schema.
+ * @param {ZodLikeSchema} schema - The Zod schema.
+ * @returns {ValidatorAdapter<TForm>} The validator adapter.
+ */
+export function zodValidator<TForm = any>(schema: ZodLikeSchema): ValidatorAdapter<TForm> {
+  return {
+    async validate(data: TForm): Promise<ValidationIssue[]> {
+      const result = await schema.safeParseAsync(data);
+      if (result.success) return [];
+
+      return result.error.issues.map((issue) => ({
+        path: issue.path.map(String).join('.'),
+        message: issue.message
+      }));
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createApp, isReactive } from 'vue';
+import { Form } from '../src/form';
+import { install } from '../src/index';
+import { createFormlink } from '../src/use-form';
+import { memoryTransport } from '../src/transports/memory';
+import { configureFormlink, getFormlinkConfig, mergeConfig, resetFormlinkConfig } from '../src/utils/config';
+
+describe('Formlink configuration', () => {
+  afterEach(() => {
+    resetFormlinkConfig();
+    vi.useRealTimers();
+  });
+
+  it('should merge headers and messages and replace other settings', () => {
+    const config = mergeConfig(
+      { baseURL: '/api', headers: { 'X-App': 'web' }, messages: { network: 'Offline.' } },
+      { baseURL: '/v2', headers: () => ({ 'X-Tenant': 'acme' }), messages: { status: { 404: 'Gone.' } } }
+    );
+
+    expect(config.baseURL).toBe('/v2');
+    expect((config.headers as () => Record<string, string>)()).toEqual({ 'X-App': 'web', 'X-Tenant': 'acme' });
+    expect(config.messages).toMatchObject({ network: 'Offline.', status: { 404: 'Gone.' } });
+  });
+
+  it('should apply the global configuration to new forms', async () => {
+    const transport = memoryTransport(() => ({ status: 503 }));
+    configureFormlink({
+      transport,
+      baseURL: 'https://example.test/api/',
+      headers: { Authorization: 'Bearer token' },
+      messages: { status: { server: 'Try again later.' } },
+      retry: { attempts: 2, delay: 0 }
+    });
+
+    const form = new Form({ name: 'Ada' });
+    await form.post('/users');
+
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests[0].url).toBe('https://example.test/api/users');
+    expect(transport.requests[0].headers).toMatchObject({ Authorization: 'Bearer token' });
+    expect(form.errors.formError).toBe('Try again later.');
+  });
+
+  it('should run the global interceptors on submissions and Precognition requests', async () => {
+    const transport = memoryTransport(() => ({ status: 200, data: { id: 1 } }));
+    configureFormlink({
+      transport,
+      onRequest: async (request) => {
+        request.headers.Authorization = 'Bearer refreshed';
+      },
+      onResponse: (response) => ({ ...response, data: { ...response.data, seen: true } })
+    });
+
+    const form = new Form({ name: 'Ada' });
+    const result = await form.post('/users');
+    await form.withPrecognition('post', '/users').validate();
+
+    expect(result.ok && result.response.data).toEqual({ id: 1, seen: true });
+    expect(transport.requests.map((request) => request.headers.Authorization)).toEqual([
+      'Bearer refreshed',
+      'Bearer refreshed'
+    ]);
+  });
+
+  it('should chain the interceptors of createFormlink with the global ones', async () => {
+    const calls: string[] = [];
+    const transport = memoryTransport();
+    configureFormlink({
+      transport,
+      onRequest: (request) => {
+        calls.push('global request');
+        request.headers.Authorization = 'Bearer token';
+      },
+      onResponse: () => void calls.push('global response')
+    });
+    const useForm = createFormlink({
+      onRequest: (request) => {
+        calls.push('factory request');
+        request.headers['Idempotency-Key'] = 'key-1';
+      },
+      onResponse: () => void calls.push('factory response')
+    });
+
+    await useForm({ name: '' }).post('/users');
+
+    expect(transport.requests[0].headers).toMatchObject({ Authorization: 'Bearer token', 'Idempotency-Key': 'key-1' });
+    expect(calls).toEqual(['global request', 'factory request', 'factory response', 'global response']);
+  });
+
+  it('should keep recentlySuccessful for the configured duration', async () => {
+    vi.useFakeTimers();
+    configureFormlink({ transport: memoryTransport(), recentlySuccessfulDuration: 5000 });
+
+    const form = new Form({ name: 'Ada' });
+    await form.post('/users');
+
+    vi.advanceTimersByTime(4000);
+    expect(form.recentlySuccessful).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(form.recentlySuccessful).toBe(false);
+  });
+
+  it('should use the configured serializer', async () => {
+    const transport = memoryTransport();
+    configureFormlink({ transport, serializer: { booleans: 'string' } });
+
+    await new Form({ active: true }).get('/users');
+
+    expect(transport.requests[0].params?.toString()).toBe('active=true');
+  });
+
+  it('should create preconfigured forms without touching the global configuration', async () => {
+    const transport = memoryTransport();
+    const useForm = createFormlink({ transport, baseURL: '/admin' });
+
+    const form = useForm({ name: '' });
+    await form.post('/users');
+
+    expect(isReactive(form)).toBe(true);
+    expect(transport.requests[0].url).toBe('/admin/users');
+    expect(getFormlinkConfig()).toEqual({});
+  });
+
+  it('should configure forms when installed as a plugin', () => {
+    const app = createApp({});
+    app.use(install, { baseURL: '/api' });
+
+    expect(getFormlinkConfig()).toEqual({ baseURL: '/api' });
+    expect(app.config.globalProperties.$useForm).toBeTypeOf('function');
+  });
+});
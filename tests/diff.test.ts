@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { diffObjects, diffPaths, isDeepEqual } from '../src/utils/diff';
+
+describe('isDeepEqual', () => {
+  it('should compare nested objects and arrays by value', () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(isDeepEqual([1, 2], [1, 2, 3])).toBe(false);
+  });
+
+  it('should compare dates by time and files by identity', () => {
+    expect(isDeepEqual(new Date(0), new Date(0))).toBe(true);
+    const file = new File(['a'], 'a.txt');
+    expect(isDeepEqual(file, file)).toBe(true);
+    expect(isDeepEqual(file, new File(['a'], 'a.txt'))).toBe(false);
+  });
+});
+
+describe('diffPaths', () => {
+  it('should list the leaf paths that differ', () => {
+    const original = { name: 'Jane', address: { city: 'Colombo' }, tags: ['a'] };
+    const current = { name: 'Jane', address: { city: 'Kandy' }, tags: ['a', 'b'] };
+    expect(diffPaths(current, original)).toEqual(['address.city', 'tags.1']);
+  });
+
+  it('should report a value replaced by a different type at its own path', () => {
+    expect(diffPaths({ address: null }, { address: { city: 'Colombo' } })).toEqual(['address']);
+  });
+});
+
+describe('diffObjects', () => {
+  it('should keep only changed keys of nested objects and whole arrays', () => {
+    const original = { name: 'Jane', address: { city: 'Colombo', zip: '1' }, tags: ['a', 'b'] };
+    const current = { name: 'Jane', address: { city: 'Kandy', zip: '1' }, tags: ['a', 'c'] };
+    expect(diffObjects(current, original)).toEqual({ address: { city: 'Kandy' }, tags: ['a', 'c'] });
+  });
+});
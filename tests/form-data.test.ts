@@ -80,3 +80,35 @@ describe('objectToFormData', () => {
     expect(() => objectToFormData(source as any)).toThrow(TypeError);
   });
 });
+
+describe('objectToFormData options', () => {
+  it('should key array items with empty brackets', () => {
+    const formData = objectToFormData({ tags: ['a', 'b'] }, { arrayFormat: 'brackets' });
+    expect(formData.getAll('tags[]')).toEqual(['a', 'b']);
+  });
+
+  it('should encode booleans as strings', () => {
+    const formData = objectToFormData({ active: true, inactive: false }, { booleans: 'string' });
+    expect(formData.get('active')).toBe('true');
+    expect(formData.get('inactive')).toBe('false');
+  });
+
+  it('should skip null and undefined values', () => {
+    const formData = objectToFormData({ name: 'John', empty: null, missing: undefined }, { nulls: 'skip' });
+    expect(formData.has('empty')).toBe(false);
+    expect(formData.has('missing')).toBe(false);
+    expect(formData.get('name')).toBe('John');
+  });
+
+  it('should format dates with a custom formatter', () => {
+    const date = new Date(Date.UTC(2024, 0, 31));
+    const formData = objectToFormData({ date }, { dateFormatter: (value) => value.toISOString().slice(0, 10) });
+    expect(formData.get('date')).toBe('2024-01-31');
+  });
+
+  it('should use dot notation for nested keys', () => {
+    const formData = objectToFormData({ user: { name: 'John', roles: ['admin'] } }, { nesting: 'dots' });
+    expect(formData.get('user.name')).toBe('John');
+    expect(formData.get('user.roles.0')).toBe('admin');
+  });
+});
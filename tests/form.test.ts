@@ -4,6 +4,11 @@ import MockAdapter from 'axios-mock-adapter';
 import { Form } from '../src/form';
 import { FormDataType } from '../src/types/form-data';
 import { Method } from '../src/types/method';
+import { rules } from '../src/validators/rules';
+import { registerMessages, setLocale } from '../src/utils/messages';
+import { FormState } from '../src/enum/form';
+import { FormSubmissionError } from '../src/form-submission-error';
+import { TransportError } from '../src/transport-error';
 
 interface TestFormData extends FormDataType {
   name: string;
@@ -36,6 +41,12 @@ describe('Form', () => {
     expect(form.isDirty).toBe(false); // Updated expectation
   });
 
+  it('should reject fields named after form state', () => {
+    ['locale', 'touched', 'validating', 'transport', 'config'].forEach((field) => {
+      expect(() => new Form({ [field]: '' })).toThrow(`The field name "${field}" is reserved`);
+    });
+  });
+
   it('should set and get form data', () => {
     form.name = 'John Doe';
     form.email = 'john@example.com';
@@ -87,6 +98,111 @@ describe('Form', () => {
     expect(form['transformCallback']!(form.data)).toEqual({ name: 'JOHN DOE', email: '' });
   });
 
+  describe('Dirty Tracking', () => {
+    interface ProfileForm {
+      name: string;
+      address: { city: string; zip: string };
+      items: { sku: string }[];
+    }
+
+    let profile: Form<ProfileForm>;
+
+    beforeEach(() => {
+      profile = new Form<ProfileForm>({ name: 'Jane', address: { city: 'Colombo', zip: '00100' }, items: [] });
+    });
+
+    it('should detect nested edits that bypass the proxy', () => {
+      profile.address.city = 'Kandy';
+      profile.items.push({ sku: 'A-1' });
+
+      expect(profile.isDirty).toBe(true);
+      expect(profile.isFieldDirty('address.city')).toBe(true);
+      expect(profile.isFieldDirty('address.zip')).toBe(false);
+      expect(profile.isFieldDirty('name')).toBe(false);
+      expect(profile.getDirtyPaths()).toEqual(['address.city', 'items.0']);
+      expect(profile.getDirtyFields()).toEqual(new Set(['address', 'items']));
+    });
+
+    it('should return only the changed subtree', () => {
+      profile.address.city = 'Kandy';
+      profile.items.push({ sku: 'A-1' });
+
+      expect(profile.getChanges()).toEqual({ address: { city: 'Kandy' }, items: [{ sku: 'A-1' }] });
+    });
+
+    it('should no longer be dirty once values match the defaults again', () => {
+      profile.name = 'John';
+      expect(profile.isDirty).toBe(true);
+
+      profile.name = 'Jane';
+      expect(profile.isDirty).toBe(false);
+      expect(profile.getDirtyPaths()).toEqual([]);
+    });
+
+    it('should clear dirty state on reset', () => {
+      profile.address.zip = '20000';
+      profile.markFieldDirty('name');
+
+      profile.reset('address');
+      expect(profile.isFieldDirty('address')).toBe(false);
+      expect(profile.isFieldDirty('name')).toBe(true);
+
+      profile.reset();
+      expect(profile.isDirty).toBe(false);
+    });
+  });
+
+  it('should submit only dirty fields when onlyDirty is set', async () => {
+    interface ProfileForm {
+      name: string;
+      bio: string;
+      address: { city: string; zip: string };
+    }
+    const profile = new Form<ProfileForm>({ name: 'Jane', bio: '', address: { city: 'Colombo', zip: '00100' } });
+    mock.onPatch('/profile').reply(200, {});
+
+    profile.address.city = 'Kandy';
+    profile.markFieldDirty('bio');
+    await profile.patch('/profile', { onlyDirty: true });
+
+    expect(JSON.parse(mock.history.patch[0].data)).toEqual({ bio: '', address: { city: 'Kandy' } });
+  });
+
+  it('should no longer be dirty after a successful submit', async () => {
+    mock.onPost('/submit').reply(200, {});
+    form.name = 'John';
+
+    await form.post('/submit');
+
+    expect(form.isDirty).toBe(false);
+    form.reset();
+    expect(form.name).toBe('John');
+  });
+
+  it('should only resend fields changed since the last successful partial submit', async () => {
+    mock.onPatch('/submit').reply(200, {});
+
+    form.name = 'b';
+    await form.patch('/submit', { onlyDirty: true });
+    form.email = 'b@example.com';
+    await form.patch('/submit', { onlyDirty: true });
+
+    expect(JSON.parse(mock.history.patch[0].data)).toEqual({ name: 'b' });
+    expect(JSON.parse(mock.history.patch[1].data)).toEqual({ email: 'b@example.com' });
+  });
+
+  it('should keep fields edited during the request dirty', async () => {
+    mock.onPost('/submit').reply(() => new Promise((resolve) => setTimeout(() => resolve([200, {}]), 10)));
+    form.name = 'saved';
+
+    const submission = form.post('/submit');
+    form.email = 'typed@example.com';
+    await submission;
+
+    expect(form.isFieldDirty('name')).toBe(false);
+    expect(form.isFieldDirty('email')).toBe(true);
+  });
+
   it('should submit the form successfully', async () => {
     const response = { data: 'success' };
     mock.onPost('/submit').reply(200, response);
@@ -127,6 +243,114 @@ describe('Form', () => {
     expect(form.errors).toEqual({ name: 'Name is required' });
   });
 
+  it('should keep every validation message per field', async () => {
+    mock.onPost('/submit').reply(422, {
+      message: 'The given data was invalid.',
+      errors: {
+        name: ['Name is required', 'Name must be a string'],
+        email: ['Email is invalid']
+      }
+    });
+
+    await form.post('/submit');
+
+    expect(form.errors).toEqual({ name: 'Name is required', email: 'Email is invalid' });
+    expect(form.getErrors('name')).toEqual(['Name is required', 'Name must be a string']);
+    expect(form.firstError('name')).toBe('Name is required');
+    expect(form.allErrors()).toEqual({
+      name: ['Name is required', 'Name must be a string'],
+      email: ['Email is invalid']
+    });
+  });
+
+  it('should keep the error bag in sync with the first-message view', () => {
+    form.setError('name', ['Too short', 'Must contain a digit']);
+    expect(form.errors.name).toBe('Too short');
+    expect(form.getErrors('name')).toEqual(['Too short', 'Must contain a digit']);
+
+    form.clearError('name');
+    expect(form.errors.name).toBeUndefined();
+    expect(form.getErrors('name')).toEqual([]);
+    expect(form.firstError('name')).toBeUndefined();
+  });
+
+  it('should address nested and array errors by dot-notation path', async () => {
+    interface OrderForm {
+      address: { city: string; zip: string };
+      items: { sku: string; qty: number }[];
+    }
+    const order = new Form<OrderForm>({ address: { city: '', zip: '' }, items: [{ sku: '', qty: 0 }] });
+    mock.onPost('/orders').reply(422, {
+      message: 'The given data was invalid.',
+      errors: {
+        'address.city': ['City is required'],
+        'items.0.sku': ['SKU is required'],
+        'items.0.qty': ['Quantity must be at least 1']
+      }
+    });
+
+    await order.post('/orders');
+
+    expect(order.hasError('items.0.sku')).toBe(true);
+    expect(order.hasError('items.1.sku')).toBe(false);
+    expect(order.errorsUnder('items')).toEqual({
+      'items.0.sku': ['SKU is required'],
+      'items.0.qty': ['Quantity must be at least 1']
+    });
+
+    order.clearErrorsUnder('address');
+    expect(order.hasError('address.city')).toBe(false);
+    expect(order.hasError('items.0.qty')).toBe(true);
+  });
+
+  it('should reset the form after success when resetOnSuccess is set', async () => {
+    mock.onPost('/submit').reply(200, {});
+    form.name = 'John Doe';
+    form.email = 'john@example.com';
+
+    await form.post('/submit', { resetOnSuccess: true });
+
+    expect(form.data).toEqual({ name: '', email: '' });
+    expect(form.isDirty).toBe(false);
+    expect(form.wasSuccessful).toBe(true);
+    expect(form.recentlySuccessful).toBe(true);
+  });
+
+  it('should reset only the listed fields after success', async () => {
+    mock.onPost('/submit').reply(200, {});
+    form.name = 'John Doe';
+    form.email = 'john@example.com';
+
+    await form.post('/submit', { resetOnSuccess: ['email'] });
+
+    expect(form.data).toEqual({ name: 'John Doe', email: '' });
+  });
+
+  it('should return to idle after resetting when preserveState is false', async () => {
+    mock.onPost('/submit').reply(200, {});
+    form.name = 'John Doe';
+
+    await form.post('/submit', { resetOnSuccess: true, preserveState: false });
+
+    expect(form.name).toBe('');
+    expect(form.wasSuccessful).toBe(false);
+    expect(form.state).toBe('idle');
+  });
+
+  it('should call onCanceled when the submission is canceled', async () => {
+    mock.onPost('/submit').reply(() => new Promise((resolve) => setTimeout(() => resolve([200, {}]), 50)));
+    const onCanceled = vi.fn();
+    const onSuccess = vi.fn();
+
+    const submission = form.post('/submit', { onCanceled, onSuccess });
+    form.cancel();
+    await submission;
+
+    expect(onCanceled).toHaveBeenCalledTimes(1);
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(form.state).toBe('cancelled');
+  });
+
   it('should cancel a form submission', async () => {
     mock.onPost('/submit').reply(
       () =>
@@ -153,6 +377,44 @@ describe('Form', () => {
     expect(form.progress).toBeNull();
   });
 
+  it('should abort the submission when the external signal is aborted', async () => {
+    mock.onPost('/submit').reply(() => new Promise((resolve) => setTimeout(() => resolve([200, {}]), 50)));
+    const controller = new AbortController();
+    const onCanceled = vi.fn();
+
+    const submission = form.post('/submit', { signal: controller.signal, onCanceled });
+    controller.abort();
+
+    expect((await submission).ok).toBe(false);
+    expect(onCanceled).toHaveBeenCalledTimes(1);
+    expect(form.state).toBe(FormState.CANCELLED);
+    expect(form.processing).toBe(false);
+  });
+
+  it('should not send the request when the external signal is already aborted', async () => {
+    mock.onPost('/submit').reply(200);
+    const controller = new AbortController();
+    controller.abort();
+
+    await form.post('/submit', { signal: controller.signal });
+
+    expect(mock.history.post).toHaveLength(0);
+    expect(form.state).toBe(FormState.CANCELLED);
+  });
+
+  it('should move to the timed-out state when the request times out', async () => {
+    mock.onPost('/submit').timeout();
+    const onError = vi.fn();
+
+    const result = await form.post('/submit', { timeout: 5000, onError });
+
+    expect(mock.history.post[0].timeout).toBe(5000);
+    expect(result).toMatchObject({ ok: false, status: null });
+    expect(form.state).toBe(FormState.TIMED_OUT);
+    expect(form.errors.formError).toBe('The request timed out. Please try again.');
+    expect(onError).toHaveBeenCalled();
+  });
+
   it('should submit the form with a GET request', async () => {
     const response = { data: 'success' };
     mock.onGet('/submit').reply(200, response);
@@ -175,6 +437,142 @@ describe('Form', () => {
     expect(form.recentlySuccessful).toBe(true);
   });
 
+  it('should send GET data in the query string', async () => {
+    mock.onGet('/search').reply(200, {});
+    form.name = 'John';
+
+    await form.get('/search?page=2');
+
+    const request = mock.history.get[0];
+    expect(request.data).toBeUndefined();
+    expect(request.url).toBe('/search');
+    expect(request.params.toString()).toBe('page=2&name=John&email=');
+  });
+
+  it('should send DELETE data in the query string when requested', async () => {
+    mock.onDelete('/items').reply(200, {});
+    form.name = 'John';
+
+    await form.delete('/items?force=1', { queryMethods: ['get', 'delete'], queryMode: 'replace' });
+
+    expect(mock.history.delete[0].params.toString()).toBe('name=John&email=');
+  });
+
+  it('should serialize toFormData like multipart submissions', () => {
+    interface SettingsForm {
+      nickname: string | null;
+      notify: boolean;
+      tags: string[];
+    }
+    const settings = new Form<SettingsForm>({ nickname: null, notify: true, tags: ['a'] });
+
+    const formData = settings.toFormData();
+    expect(formData.get('nickname')).toBe('');
+    expect(formData.get('notify')).toBe('1');
+    expect(formData.get('tags[0]')).toBe('a');
+
+    settings.withOptions({ serializer: { nulls: 'skip', booleans: 'string' } });
+    const configured = settings.toFormData({ arrayFormat: 'brackets' });
+    expect(configured.has('nickname')).toBe(false);
+    expect(configured.get('notify')).toBe('true');
+    expect(configured.get('tags[]')).toBe('a');
+  });
+
+  it('should apply the transform to multipart payloads', async () => {
+    interface UploadForm {
+      title: string;
+      attachment: File | null;
+    }
+    const upload = new Form<UploadForm>({ title: 'report', attachment: new File(['a'], 'report.pdf') });
+    mock.onPost('/uploads').reply(200, {});
+
+    upload.transform((data) => ({ ...data, title: data.title.toUpperCase() }));
+    await upload.post('/uploads');
+
+    const formData = mock.history.post[0].data as FormData;
+    expect(formData.get('title')).toBe('REPORT');
+    expect(formData.get('attachment')).toBeInstanceOf(File);
+  });
+
+  it('should detect files on the transformed payload', async () => {
+    mock.onPost('/submit').reply(200, {});
+
+    await form.post('/submit', {
+      transform: (data) => ({ ...data, avatar: new File(['a'], 'avatar.png') })
+    });
+
+    expect(mock.history.post[0].data).toBeInstanceOf(FormData);
+  });
+
+  it('should prefer the per-request transform over the form transform', async () => {
+    mock.onPost('/submit').reply(200, {});
+    form.name = 'John';
+    form.transform((data) => ({ ...data, name: 'sticky' }));
+
+    await form.post('/submit', { transform: (data) => ({ name: data.name.toLowerCase() }) });
+    await form.post('/submit');
+
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({ name: 'john' });
+    expect(JSON.parse(mock.history.post[1].data)).toEqual({ name: 'sticky', email: '' });
+  });
+
+  describe('Method Spoofing', () => {
+    interface AvatarForm {
+      name: string;
+      avatar: File | null;
+    }
+
+    let upload: Form<AvatarForm>;
+
+    beforeEach(() => {
+      upload = new Form<AvatarForm>({ name: 'Jane', avatar: new File(['a'], 'avatar.png') });
+    });
+
+    it('should send multipart PUT requests as POST with a _method field', async () => {
+      mock.onPost('/profile').reply(200, {});
+
+      await upload.put('/profile', { spoofMethod: true });
+
+      const request = mock.history.post[0];
+      expect(request.data).toBeInstanceOf(FormData);
+      expect(request.data.get('_method')).toBe('put');
+      expect(request.data.get('name')).toBe('Jane');
+    });
+
+    it('should apply spoofing configured per form and allow a per-request override', async () => {
+      mock.onPost('/profile').reply(200, {});
+      mock.onPatch('/profile').reply(200, {});
+      upload.withOptions({ spoofMethod: true });
+
+      await upload.patch('/profile');
+      await upload.patch('/profile', { spoofMethod: false });
+
+      expect(mock.history.post[0].data.get('_method')).toBe('patch');
+      expect(mock.history.patch).toHaveLength(1);
+    });
+
+    it('should keep the multipart body of spoofed requests whose method uses the query string', async () => {
+      mock.onPost('/profile').reply(200, {});
+
+      await upload.delete('/profile', { spoofMethod: true, queryMethods: ['get', 'delete'] });
+
+      const request = mock.history.post[0];
+      expect(request.data).toBeInstanceOf(FormData);
+      expect(request.data.get('_method')).toBe('delete');
+      expect(request.data.get('avatar')).toBeInstanceOf(File);
+      expect(request.params).toBeUndefined();
+    });
+
+    it('should not spoof JSON payloads', async () => {
+      mock.onPut('/profile').reply(200, {});
+      upload.avatar = null;
+
+      await upload.put('/profile', { spoofMethod: true });
+
+      expect(mock.history.put).toHaveLength(1);
+    });
+  });
+
   it('should submit the form with a POST request', async () => {
     const response = { data: 'success' };
     mock.onPost('/submit').reply(200, response);
@@ -285,6 +683,712 @@ describe('Form', () => {
     expect(form.recentlySuccessful).toBe(true);
   });
 
+  describe('Validation Triggers', () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      form.rules = { email: [rules.email()] };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should cancel a submission while it is being validated', async () => {
+      const onCanceled = vi.fn();
+      mock.onPost('/submit').reply(200, {});
+      form.rules = {
+        name: [
+          { validate: () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 20)), message: 'Invalid' }
+        ]
+      };
+
+      const submission = form.post('/submit', { validateOn: 'submit', onCanceled });
+      form.cancel();
+
+      expect((await submission).ok).toBe(false);
+      expect(mock.history.post).toHaveLength(0);
+      expect(onCanceled).toHaveBeenCalledTimes(1);
+      expect(form.state).toBe(FormState.CANCELLED);
+      expect(form.processing).toBe(false);
+    });
+
+    it('should honor an external signal aborted while the submission is being validated', async () => {
+      const controller = new AbortController();
+      mock.onPost('/submit').reply(200, {});
+      form.rules = {
+        name: [
+          { validate: () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 20)), message: 'Invalid' }
+        ]
+      };
+
+      const submission = form.post('/submit', { validateOn: 'submit', signal: controller.signal });
+      controller.abort();
+
+      expect((await submission).ok).toBe(false);
+      expect(mock.history.post).toHaveLength(0);
+      expect(form.state).toBe(FormState.CANCELLED);
+    });
+
+    it('should not validate on assignment by default', async () => {
+      form.email = 'invalid';
+      await flush();
+
+      expect(form.hasError('email')).toBe(false);
+    });
+
+    it('should validate on every assignment with the input trigger', async () => {
+      form.withOptions({ validateOn: 'input' });
+
+      form.email = 'invalid';
+      await flush();
+      expect(form.getError('email')).toBe('The email field must be a valid email address.');
+
+      form.email = 'jane@example.com';
+      await flush();
+      expect(form.hasError('email')).toBe(false);
+    });
+
+    it('should debounce validation', async () => {
+      vi.useFakeTimers();
+      form.withOptions({ validateOn: 'input', validateDebounce: 300 });
+
+      form.email = 'inv';
+      form.email = 'invalid';
+      await vi.advanceTimersByTimeAsync(299);
+      expect(form.hasError('email')).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(form.hasError('email')).toBe(true);
+    });
+
+    it('should validate on touch with the blur trigger', async () => {
+      form.withOptions({ validateOn: 'blur' });
+
+      form.email = 'invalid';
+      await flush();
+      expect(form.hasError('email')).toBe(false);
+
+      form.touch('email');
+      await flush();
+      expect(form.touched.email).toBe(true);
+      expect(form.hasError('email')).toBe(true);
+
+      // Once an error shows, fixing the value clears it without waiting for the next blur
+      form.email = 'jane@example.com';
+      await flush();
+      expect(form.hasError('email')).toBe(false);
+    });
+
+    it('should validate on touch only after a change with the change trigger', async () => {
+      form.email = 'invalid';
+      form.withOptions({ validateOn: 'change' });
+
+      form.touch('email');
+      await flush();
+      expect(form.hasError('email')).toBe(false);
+
+      form.email = 'still invalid';
+      form.touch('email');
+      await flush();
+      expect(form.hasError('email')).toBe(true);
+    });
+
+    it('should let fields override the form trigger and debounce', async () => {
+      form.name = '';
+      form.rules = { ...form.rules, name: [rules.required()] };
+      form.withOptions({ validateOn: 'blur', fieldValidation: { email: { validateOn: 'input' } } });
+
+      form.email = 'invalid';
+      form.name = 'Jane';
+      form.name = '';
+      await flush();
+
+      expect(form.hasError('email')).toBe(true);
+      expect(form.hasError('name')).toBe(false);
+    });
+
+    it('should not submit an invalid form once automatic validation is enabled', async () => {
+      const onError = vi.fn();
+      mock.onPost('/submit').reply(200);
+      form.email = 'invalid';
+      form.withOptions({ validateOn: 'submit' });
+
+      await form.post('/submit', { onError });
+
+      expect(mock.history.post).toHaveLength(0);
+      expect(form.state).toBe(FormState.ERROR);
+      expect(onError).toHaveBeenCalledWith({ email: 'The email field must be a valid email address.' });
+
+      form.email = 'jane@example.com';
+      await form.post('/submit');
+      expect(mock.history.post).toHaveLength(1);
+    });
+  });
+
+  describe('Submission Results', () => {
+    it('should resolve with the typed response on success', async () => {
+      mock.onPost('/users').reply(201, { id: 1, name: 'Jane' });
+
+      const result = await form.post<{ id: number; name: string }>('/users');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.response.status).toBe(201);
+        expect(result.response.data.id).toBe(1);
+      }
+    });
+
+    it('should resolve with the errors and status on failure', async () => {
+      mock.onPost('/users').reply(422, { errors: { email: ['The email field is required.'] } });
+
+      const result = await form.post('/users');
+
+      expect(result).toEqual({ ok: false, errors: { email: 'The email field is required.' }, status: 422 });
+    });
+
+    it('should report a null status when no response was received', async () => {
+      mock.onPost('/users').networkError();
+
+      const result = await form.post('/users');
+
+      expect(result.ok).toBe(false);
+      expect(result.ok ? undefined : result.status).toBeNull();
+    });
+
+    it('should reject with a FormSubmissionError when throwOnError is set', async () => {
+      const onFinish = vi.fn();
+      mock.onPut('/users/1').reply(500);
+
+      const submission = form.put('/users/1', { throwOnError: true, onFinish });
+
+      await expect(submission).rejects.toBeInstanceOf(FormSubmissionError);
+      await submission.catch((error: FormSubmissionError) => {
+        expect(error.status).toBe(500);
+        expect(error.errors.formError).toBe('Server error. Please try again later.');
+      });
+      expect(onFinish).toHaveBeenCalled();
+      expect(form.processing).toBe(false);
+    });
+
+    it('should reject when client-side validation blocks the submission with throwOnError', async () => {
+      form.rules = { email: [rules.required()] };
+      form.withOptions({ validateOn: 'submit', throwOnError: true });
+
+      await expect(form.post('/users')).rejects.toMatchObject({
+        status: null,
+        errors: { email: 'The email field is required.' }
+      });
+    });
+  });
+
+  describe('Interceptors', () => {
+    it('should let onRequest change the headers, URL and payload', async () => {
+      mock.onPost('/v2/users').reply(201);
+
+      await form.post('/users', {
+        onRequest: async (request) => {
+          request.headers['Idempotency-Key'] = 'key-1';
+          return { ...request, url: `/v2${request.url}`, data: { ...request.data, source: 'web' } };
+        }
+      });
+
+      expect(mock.history.post[0].headers?.['Idempotency-Key']).toBe('key-1');
+      expect(JSON.parse(mock.history.post[0].data)).toEqual({ name: '', email: '', source: 'web' });
+    });
+
+    it('should run the form hooks around the submission hooks', async () => {
+      const calls: string[] = [];
+      mock.onPost('/users').reply(200, {});
+      form.withOptions({
+        onRequest: () => void calls.push('form request'),
+        onResponse: () => void calls.push('form response')
+      });
+
+      await form.post('/users', {
+        onRequest: () => void calls.push('submit request'),
+        onResponse: () => void calls.push('submit response')
+      });
+
+      expect(calls).toEqual(['form request', 'submit request', 'submit response', 'form response']);
+    });
+
+    it('should hand the transformed response to the success hooks', async () => {
+      const onSuccess = vi.fn();
+      mock.onPost('/users').reply(200, { data: { id: 1 } });
+
+      const result = await form.post('/users', {
+        onResponse: (response) => ({ ...response, data: response.data.data }),
+        onSuccess
+      });
+
+      expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ data: { id: 1 } }));
+      expect(result.ok && result.response.data).toEqual({ id: 1 });
+    });
+
+    it('should fail the submission when onResponse rejects the response', async () => {
+      mock.onPost('/users').reply(200, { success: false, errors: { email: ['Already subscribed.'] } });
+
+      const result = await form.post('/users', {
+        onResponse: (response) => {
+          if (!response.data.success) throw new TransportError('http', 'Rejected', { ...response, status: 422 });
+        }
+      });
+
+      expect(result).toMatchObject({ ok: false, status: 422 });
+      expect(form.errors.email).toBe('Already subscribed.');
+      expect(form.state).toBe(FormState.ERROR);
+    });
+
+    it('should not send the request when onBefore returns false', async () => {
+      const onFinish = vi.fn();
+      mock.onPost('/users').reply(200);
+
+      const result = await form.post('/users', { onBefore: () => false, onFinish });
+
+      expect(result.ok).toBe(false);
+      expect(mock.history.post).toHaveLength(0);
+      expect(form.processing).toBe(false);
+      expect(form.state).toBe(FormState.IDLE);
+      expect(onFinish).not.toHaveBeenCalled();
+    });
+
+    it('should leave the form untouched when onBefore vetoes a validated submission', async () => {
+      const onError = vi.fn();
+      form.rules = { name: [rules.required()] };
+
+      const result = await form.post('/users', {
+        onBefore: () => false,
+        validateOn: 'submit',
+        throwOnError: true,
+        onError
+      });
+
+      expect(result).toEqual({ ok: false, errors: {}, status: null });
+      expect(form.submitCount).toBe(0);
+      expect(form.errors).toEqual({});
+      expect(form.state).toBe(FormState.IDLE);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should resolve overlapping submissions with the one in flight when ignoring new ones', async () => {
+      mock.onPost('/submit').reply(200, { id: 1 });
+      form.withOptions({ concurrency: 'ignore-new' });
+
+      const first = form.post('/submit');
+      const second = form.post('/submit');
+
+      expect(second).toBe(first);
+      await Promise.all([first, second]);
+      expect(mock.history.post).toHaveLength(1);
+    });
+
+    it('should cancel the request in flight when a new submission starts', async () => {
+      const onCanceled = vi.fn();
+      mock.onPost('/search').reply(() => new Promise((resolve) => setTimeout(() => resolve([200, {}]), 20)));
+
+      const first = form.post('/search', { concurrency: 'cancel-previous', onCanceled });
+      const second = form.post('/search', { concurrency: 'cancel-previous' });
+
+      expect((await first).ok).toBe(false);
+      expect((await second).ok).toBe(true);
+      expect(onCanceled).toHaveBeenCalledTimes(1);
+      expect(form.state).toBe(FormState.SUCCESS);
+      expect(form.processing).toBe(false);
+    });
+
+    it('should cancel a previous submission that is still validating', async () => {
+      mock.onPost('/submit').reply(200, {});
+      form.rules = {
+        name: [
+          { validate: () => new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 10)), message: 'Invalid' }
+        ]
+      };
+      form.withOptions({ validateOn: 'submit', concurrency: 'cancel-previous' });
+
+      const first = form.post('/submit');
+      const second = form.post('/submit');
+
+      expect((await first).ok).toBe(false);
+      expect((await second).ok).toBe(true);
+      expect(mock.history.post).toHaveLength(1);
+      expect(form.state).toBe(FormState.SUCCESS);
+    });
+
+    it('should send queued submissions one after another', async () => {
+      const order: string[] = [];
+      mock.onPost('/submit').reply((config) => {
+        order.push(`start ${config.data}`);
+        return new Promise((resolve) =>
+          setTimeout(() => {
+            order.push(`end ${config.data}`);
+            resolve([200, {}]);
+          }, 10)
+        );
+      });
+      form.withOptions({ concurrency: 'queue' });
+
+      form.name = 'first';
+      const first = form.post('/submit', { transform: (data) => ({ name: data.name }) });
+      const second = form.post('/submit', { transform: () => ({ name: 'second' }) });
+      await Promise.all([first, second]);
+
+      expect(order).toEqual([
+        'start {"name":"first"}',
+        'end {"name":"first"}',
+        'start {"name":"second"}',
+        'end {"name":"second"}'
+      ]);
+    });
+
+    it('should settle queued submissions as canceled when the form is canceled', async () => {
+      const onCanceled = vi.fn();
+      mock.onPost('/submit').reply(() => new Promise((resolve) => setTimeout(() => resolve([200, {}]), 20)));
+      form.withOptions({ concurrency: 'queue', onCanceled });
+
+      const first = form.post('/submit');
+      const second = form.post('/submit');
+      await vi.waitFor(() => expect(mock.history.post).toHaveLength(1), { interval: 1 });
+      form.cancel();
+
+      expect((await first).ok).toBe(false);
+      expect((await second).ok).toBe(false);
+      expect(mock.history.post).toHaveLength(1);
+      expect(onCanceled).toHaveBeenCalledTimes(2);
+      expect(form.state).toBe(FormState.CANCELLED);
+    });
+
+    it('should stay processing until every allowed request has settled', async () => {
+      mock
+        .onPost('/fast')
+        .reply(200)
+        .onPost('/slow')
+        .reply(() => new Promise((resolve) => setTimeout(() => resolve([200, {}]), 20)));
+
+      const slow = form.post('/slow');
+      await form.post('/fast');
+
+      expect(form.processing).toBe(true);
+      await slow;
+      expect(form.processing).toBe(false);
+      expect(mock.history.post).toHaveLength(2);
+    });
+  });
+
+  describe('Messages', () => {
+    afterEach(() => {
+      setLocale('en');
+    });
+
+    it('should use the messages of the global locale', async () => {
+      registerMessages('fr', {
+        status: { 404: 'La ressource demandée est introuvable.' },
+        rules: { required: 'Le champ :attribute est obligatoire.' }
+      });
+      setLocale('fr');
+      mock.onPost('/missing').reply(404);
+      form.rules = { name: [rules.required()] };
+
+      await form.post('/missing');
+      expect(form.errors.formError).toBe('La ressource demandée est introuvable.');
+
+      await form.validate();
+      expect(form.errors.name).toBe('Le champ name est obligatoire.');
+    });
+
+    it('should let a form override messages and choose its own locale', async () => {
+      registerMessages('es', { network: 'Error de red.' });
+      mock.onPost('/submit').networkError();
+
+      form.setLocale('es');
+      await form.post('/submit');
+      expect(form.errors.formError).toBe('Error de red.');
+
+      form.withMessages({ status: { 500: 'Our servers are taking a break.' } }).setLocale(null);
+      mock.onPost('/broken').reply(500);
+      await form.post('/broken');
+      expect(form.errors.formError).toBe('Our servers are taking a break.');
+    });
+
+    it('should show the server message as formError when requested', async () => {
+      mock.onPost('/submit').reply(422, {
+        message: 'The email field is required.',
+        errors: { email: ['The email field is required.'] }
+      });
+      mock.onPost('/forbidden').reply(403, { message: 'This action is unauthorized.' });
+
+      await form.post('/submit', { useServerMessage: true });
+      expect(form.errors).toEqual({ email: 'The email field is required.', formError: 'The email field is required.' });
+
+      await form.post('/forbidden', { useServerMessage: true });
+      expect(form.errors).toEqual({ formError: 'This action is unauthorized.' });
+
+      await form.post('/forbidden');
+      expect(form.errors.formError).toBe('You do not have permission to perform this action.');
+    });
+
+    it('should use the catalog message for rules that throw', async () => {
+      form.withMessages({ ruleFailed: 'Could not validate :attribute.' });
+      form.rules = {
+        name: [
+          {
+            validate: () => {
+              throw new Error('boom');
+            }
+          }
+        ]
+      };
+
+      await form.validate();
+      expect(form.errors.name).toBe('Could not validate name.');
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry transient failures and succeed', async () => {
+      const onRetry = vi.fn();
+      const states: FormState[] = [];
+      mock.onPost('/checkout').replyOnce(503).onPost('/checkout').networkErrorOnce().onPost('/checkout').reply(200);
+
+      const result = await form.post('/checkout', {
+        retry: {
+          attempts: 3,
+          delay: 0,
+          onRetry: (attempt, error, delay) => {
+            states.push(form.state);
+            onRetry(attempt, delay);
+          }
+        }
+      });
+
+      expect(result.ok).toBe(true);
+      expect(mock.history.post).toHaveLength(3);
+      expect(onRetry).toHaveBeenNthCalledWith(1, 2, 0);
+      expect(onRetry).toHaveBeenNthCalledWith(2, 3, 0);
+      expect(states).toEqual([FormState.RETRYING, FormState.RETRYING]);
+      expect(form.state).toBe(FormState.SUCCESS);
+    });
+
+    it('should not retry validation failures', async () => {
+      mock.onPost('/checkout').reply(422, { errors: { email: ['The email field is required.'] } });
+
+      await form.post('/checkout', { retry: 3 });
+
+      expect(mock.history.post).toHaveLength(1);
+      expect(form.errors.email).toBe('The email field is required.');
+    });
+
+    it('should report the last failure once the attempts are exhausted', async () => {
+      mock.onPost('/checkout').reply(500);
+
+      const result = await form.withOptions({ retry: { attempts: 2, delay: 0 } }).post('/checkout');
+
+      expect(mock.history.post).toHaveLength(2);
+      expect(result).toMatchObject({ ok: false, status: 500 });
+      expect(form.state).toBe(FormState.ERROR);
+    });
+
+    it('should stop retrying when the submission is canceled', async () => {
+      const onCanceled = vi.fn();
+      mock.onPost('/checkout').reply(503);
+
+      const submission = form.post('/checkout', {
+        retry: { attempts: 3, delay: 60000, onRetry: () => form.cancel() },
+        onCanceled
+      });
+
+      await submission;
+      expect(mock.history.post).toHaveLength(1);
+      expect(form.state).toBe(FormState.CANCELLED);
+      expect(onCanceled).toHaveBeenCalled();
+    });
+  });
+
+  describe('Response Merging', () => {
+    interface PostForm {
+      id: number | null;
+      title: string;
+      slug: string;
+    }
+
+    let post: Form<PostForm>;
+
+    beforeEach(() => {
+      post = new Form<PostForm>({ id: null, title: 'Hello World', slug: '' });
+    });
+
+    it('should merge the known keys of the response into the data', async () => {
+      mock.onPost('/posts').reply(201, { id: 7, title: 'Hello World', slug: 'hello-world', created_at: '2024-01-01' });
+
+      await post.post('/posts', { mergeResponse: true });
+
+      expect(post.data).toEqual({ id: 7, title: 'Hello World', slug: 'hello-world' });
+      expect(post.isDirty).toBe(true);
+    });
+
+    it('should merge the values picked by a mapper into the data and defaults', async () => {
+      mock.onPut('/posts/7').reply(200, { data: { id: 7, slug: 'hello-world' } });
+
+      await post.put<{ data: Partial<PostForm> }>('/posts/7', {
+        mergeResponse: (response) => response.data.data,
+        mergeIntoDefaults: true
+      });
+
+      expect(post.slug).toBe('hello-world');
+      expect(post.isDirty).toBe(false);
+
+      post.title = 'Changed';
+      post.reset();
+      expect(post.data).toEqual({ id: 7, title: 'Hello World', slug: 'hello-world' });
+    });
+
+    it('should pass the typed response to onSuccess after merging', async () => {
+      mock.onPost('/posts').reply(201, { id: 7 });
+      const onSuccess = vi.fn((response: { data: { id: number } }) => {
+        expect(post.id).toBe(response.data.id);
+      });
+
+      await post.post<{ id: number }>('/posts', { mergeResponse: true, onSuccess });
+
+      expect(onSuccess).toHaveBeenCalledOnce();
+    });
+
+    it('should leave the data untouched for non-object responses', async () => {
+      mock.onPost('/posts').reply(204);
+
+      await post.post('/posts', { mergeResponse: true });
+
+      expect(post.data).toEqual({ id: null, title: 'Hello World', slug: '' });
+    });
+  });
+
+  describe('Touched Fields', () => {
+    it('should track touched fields', () => {
+      expect(form.isTouched()).toBe(false);
+
+      form.touch('email');
+
+      expect(form.touched).toEqual({ email: true });
+      expect(form.isTouched('email')).toBe(true);
+      expect(form.isTouched('name')).toBe(false);
+      expect(form.isTouched()).toBe(true);
+
+      form.untouch('email');
+      expect(form.isTouched()).toBe(false);
+    });
+
+    it('should clear touched fields on reset', () => {
+      form.touch('name').touch('email');
+
+      form.reset('name');
+      expect(form.touched).toEqual({ email: true });
+
+      form.reset();
+      expect(form.touched).toEqual({});
+    });
+
+    it('should only show errors of touched fields until a submission is attempted', async () => {
+      form.setErrors({ name: 'The name field is required.', formError: 'Something went wrong.' });
+      expect(form.visibleErrors).toEqual({});
+
+      form.touch('name');
+      expect(form.visibleErrors).toEqual({ name: 'The name field is required.', formError: 'Something went wrong.' });
+
+      form.untouch();
+      mock.onPost('/submit').reply(422, { errors: { name: ['The name field is required.'] } });
+      await form.post('/submit');
+      expect(form.visibleErrors).toEqual({ name: 'The name field is required.' });
+    });
+
+    it('should show nested errors once their top-level field is touched', () => {
+      form.setError('address.city' as never, 'The city field is required.');
+      form.touch('address' as never);
+
+      expect(form.visibleErrors).toEqual({ 'address.city': 'The city field is required.' });
+    });
+
+    it('should count submission attempts, including ones blocked by validation', async () => {
+      mock.onPost('/submit').reply(200);
+      form.rules = { email: [rules.required()] };
+      form.withOptions({ validateOn: 'submit' });
+
+      await form.post('/submit');
+      expect(form.submitCount).toBe(1);
+      expect(mock.history.post).toHaveLength(0);
+
+      form.email = 'jane@example.com';
+      await form.post('/submit');
+      expect(form.submitCount).toBe(2);
+
+      form.reset();
+      expect(form.submitCount).toBe(0);
+    });
+  });
+
+  describe('Precognition', () => {
+    beforeEach(() => {
+      form.withPrecognition('post', '/users');
+    });
+
+    it('should validate the given fields on the server', async () => {
+      form.email = 'taken@example.com';
+      mock.onPost('/users').reply(422, {
+        errors: { email: ['The email has already been taken.'], name: ['The name field is required.'] }
+      });
+
+      expect(await form.validate('email')).toBe(false);
+
+      const request = mock.history.post[0];
+      expect(request.headers?.Precognition).toBe('true');
+      expect(request.headers?.['Precognition-Validate-Only']).toBe('email');
+      expect(JSON.parse(request.data)).toEqual({ name: '', email: 'taken@example.com' });
+      expect(form.errors).toEqual({ email: 'The email has already been taken.' });
+    });
+
+    it('should report server failures during automatic validation as a form error', async () => {
+      mock.onPost('/users').reply(500);
+      form.withOptions({ validateOn: 'input' });
+
+      form.name = 'a';
+      await vi.waitFor(() => expect(form.errors.formError).toBe('Server error. Please try again later.'));
+
+      expect(form.validating).toBe(false);
+    });
+
+    it('should clear the errors of the validated fields when the server accepts them', async () => {
+      form.setErrors({ email: 'The email has already been taken.', name: 'The name field is required.' });
+      mock.onPost('/users').reply(204);
+
+      expect(await form.validate(['email'])).toBe(true);
+      expect(form.errors).toEqual({ name: 'The name field is required.' });
+    });
+
+    it('should validate the whole form without a Validate-Only header', async () => {
+      mock.onPost('/users').reply(422, { errors: { name: ['The name field is required.'] } });
+
+      expect(await form.validate()).toBe(false);
+      expect(mock.history.post[0].headers?.['Precognition-Validate-Only']).toBeUndefined();
+      expect(form.errors).toEqual({ name: 'The name field is required.' });
+    });
+
+    it('should not call the server when client-side rules fail', async () => {
+      form.rules = { email: [rules.email()] };
+      form.email = 'invalid';
+
+      expect(await form.validate('email')).toBe(false);
+      expect(mock.history.post).toHaveLength(0);
+    });
+
+    it('should rethrow errors other than validation failures', async () => {
+      mock.onPost('/users').reply(500);
+
+      await expect(form.validate('email')).rejects.toThrow();
+      expect(form.validating).toBe(false);
+    });
+  });
+
   describe('Form Validation', () => {
     it('should validate form data before submission', async () => {
       form.rules = {
@@ -302,5 +1406,259 @@ describe('Form', () => {
       expect(isValid).toBe(false);
       expect(form.errors.email).toBe('Invalid email format');
     });
+
+    it('should map validator adapter issues into errors, including nested paths', async () => {
+      interface AccountForm {
+        email: string;
+        address: { city: string };
+      }
+      const account = new Form<AccountForm>({ email: '', address: { city: '' } });
+      account.withValidator({
+        validate: (data) => [
+          ...(data.email ? [] : [{ path: 'email', message: 'Email is required' }]),
+          ...(data.address.city ? [] : [{ path: 'address.city', message: 'City is required' }]),
+          { path: '', message: 'Form is incomplete' }
+        ]
+      });
+
+      expect(await account.validate()).toBe(false);
+      expect(account.errors).toEqual({
+        email: 'Email is required',
+        'address.city': 'City is required',
+        formError: 'Form is incomplete'
+      });
+
+      account.address.city = 'Colombo';
+      expect(await account.validateField('address')).toBe(true);
+      expect(account.hasError('address.city')).toBe(false);
+      expect(account.hasError('email')).toBe(true);
+    });
+
+    it('should interpolate Laravel-style messages for built-in rules', async () => {
+      interface SignupForm {
+        display_name: string;
+        password: string;
+        password_confirmation: string;
+      }
+      const signup = new Form<SignupForm>({ display_name: 'Jo', password: 'secret', password_confirmation: 'other' });
+      signup.rules = {
+        display_name: [rules.required(), rules.min(3)],
+        password: [rules.confirmed()]
+      };
+
+      expect(await signup.validate()).toBe(false);
+      expect(signup.errors).toEqual({
+        display_name: 'The display name field must be at least 3 characters.',
+        password: 'The password field confirmation does not match.'
+      });
+    });
+
+    it('should pass the whole data and the field path to rules', async () => {
+      const validate = vi.fn(() => true);
+      form.email = 'jane@example.com';
+      form.rules = { email: [{ validate, message: 'Invalid' }] };
+
+      await form.validateField('email');
+
+      expect(validate).toHaveBeenCalledWith('jane@example.com', form.data, 'email', expect.any(AbortSignal));
+    });
+
+    it('should report form rules on formError or their target field', async () => {
+      interface ContactForm {
+        email: string;
+        phone: string;
+        starts_at: string;
+        ends_at: string;
+      }
+      const contact = new Form<ContactForm>({ email: '', phone: '', starts_at: '2024-01-10', ends_at: '2024-01-05' });
+      contact.formRules = [
+        { validate: (data) => !!(data.email || data.phone), message: 'Provide an email or a phone number.' },
+        {
+          validate: (data) => data.ends_at > data.starts_at,
+          message: 'The end date must be after the start date.',
+          field: 'ends_at'
+        }
+      ];
+
+      expect(await contact.validate()).toBe(false);
+      expect(contact.errors).toEqual({
+        formError: 'Provide an email or a phone number.',
+        ends_at: 'The end date must be after the start date.'
+      });
+
+      contact.phone = '555-0100';
+      contact.ends_at = '2024-01-11';
+      expect(await contact.validate()).toBe(true);
+      expect(contact.hasErrors()).toBe(false);
+    });
+
+    it('should validate dependent fields again when a dependency is validated', async () => {
+      interface PasswordForm {
+        password: string;
+        password_confirmation: string;
+      }
+      const signup = new Form<PasswordForm>({ password: '', password_confirmation: '' });
+      signup.rules = { password: [rules.confirmed()] };
+
+      signup.password = 'secret';
+      expect(await signup.validateField('password')).toBe(false);
+      expect(signup.getError('password')).toBe('The password field confirmation does not match.');
+
+      signup.password_confirmation = 'secret';
+      await signup.validateField('password_confirmation');
+      expect(signup.hasError('password')).toBe(false);
+    });
+
+    it('should not flag untouched dependent fields', async () => {
+      interface EventForm {
+        starts_at: string;
+        ends_at: string;
+      }
+      const event = new Form<EventForm>({ starts_at: '', ends_at: '' });
+      event.rules = { ends_at: [rules.required(), rules.after('starts_at')] };
+
+      event.starts_at = '2024-01-10';
+      await event.validateField('starts_at');
+      expect(event.hasError('ends_at')).toBe(false);
+
+      event.ends_at = '2024-01-05';
+      await event.validateField('ends_at');
+      expect(event.hasError('ends_at')).toBe(true);
+
+      event.starts_at = '2024-01-01';
+      await event.validateField('starts_at');
+      expect(event.hasError('ends_at')).toBe(false);
+    });
+
+    it('should run form rules again when a field they depend on is validated', async () => {
+      interface ContactForm {
+        email: string;
+        phone: string;
+      }
+      const contact = new Form<ContactForm>({ email: '', phone: '' });
+      contact.formRules = [
+        {
+          validate: (data) => !!(data.email || data.phone),
+          message: 'Provide an email or a phone number.',
+          dependsOn: ['email', 'phone']
+        }
+      ];
+
+      await contact.validate();
+      expect(contact.getError('formError')).toBe('Provide an email or a phone number.');
+
+      contact.phone = '555-0100';
+      await contact.validateField('phone');
+      expect(contact.hasError('formError')).toBe(false);
+    });
+
+    it('should flag the field and the form while an async rule is pending', async () => {
+      let resolveCheck: (available: boolean) => void = () => undefined;
+      form.rules = {
+        name: [{ validate: () => new Promise<boolean>((resolve) => (resolveCheck = resolve)), message: 'Taken' }]
+      };
+
+      const pending = form.validateField('name');
+      expect(form.isValidating('name')).toBe(true);
+      expect(form.validating).toBe(true);
+
+      resolveCheck(true);
+      await pending;
+      expect(form.validatingFields).toEqual({});
+      expect(form.validating).toBe(false);
+    });
+
+    it('should abort a stale async validation and keep the latest result', async () => {
+      const checks: Array<{ signal: AbortSignal; resolve: (available: boolean) => void }> = [];
+      form.rules = {
+        name: [
+          {
+            validate: (_value, _data, _field, signal) =>
+              new Promise<boolean>((resolve) => checks.push({ signal, resolve })),
+            message: 'The username is taken.'
+          }
+        ]
+      };
+
+      form.name = 'taken';
+      const first = form.validateField('name');
+      form.name = 'free';
+      const second = form.validateField('name');
+
+      expect(checks[0].signal.aborted).toBe(true);
+      expect(checks[1].signal.aborted).toBe(false);
+
+      // The newer check settles first, the stale one resolves afterwards and must not overwrite it
+      checks[1].resolve(true);
+      expect(await second).toBe(true);
+      checks[0].resolve(false);
+      expect(await first).toBe(true);
+
+      expect(form.hasError('name')).toBe(false);
+      expect(form.isValidating('name')).toBe(false);
+    });
+
+    it('should resolve a stale validation with the outcome of the one superseding it', async () => {
+      const checks: Array<(valid: boolean) => void> = [];
+      form.rules = {
+        name: [{ validate: () => new Promise<boolean>((resolve) => checks.push(resolve)), message: 'Taken.' }]
+      };
+
+      const first = form.validateField('name');
+      const second = form.validateField('name');
+      const all = form.validate();
+
+      // The stale checks settle first, yet resolve with what the latest validation reports
+      checks[0](true);
+      checks[1](true);
+      checks[2](false);
+
+      expect(await Promise.all([first, second, all])).toEqual([false, false, false]);
+      expect(form.errors).toEqual({ name: 'Taken.' });
+    });
+
+    it('should discard pending field validations when the form is reset', async () => {
+      let resolveCheck: (valid: boolean) => void = () => undefined;
+      form.rules = {
+        name: [{ validate: () => new Promise<boolean>((resolve) => (resolveCheck = resolve)), message: 'Invalid' }]
+      };
+
+      const pending = form.validateField('name');
+      form.reset();
+      resolveCheck(false);
+      await pending;
+
+      expect(form.hasErrors()).toBe(false);
+      expect(form.validating).toBe(false);
+    });
+
+    it('should combine rule and validator messages for the same field', async () => {
+      form.rules = { email: [{ validate: (value) => value.includes('@'), message: 'Must contain @' }] };
+      form.withValidator({ validate: () => [{ path: 'email', message: 'Email is taken' }] });
+      form.email = 'invalid';
+
+      expect(await form.validateField('email')).toBe(false);
+      expect(form.getErrors('email')).toEqual(['Must contain @', 'Email is taken']);
+    });
+
+    it('should report a throwing validator instead of rejecting', async () => {
+      form.withValidator({
+        validate: () => {
+          throw new Error('schema boom');
+        },
+        validateField: async () => {
+          throw new Error('schema boom');
+        }
+      });
+
+      expect(await form.validateField('email')).toBe(false);
+      expect(form.errors.email).toBe('Validation error occurred');
+
+      const result = await form.post('/submit', { validateOn: 'submit' });
+
+      expect(result).toMatchObject({ ok: false, status: null });
+      expect(form.errors.formError).toBe('Validation error occurred');
+      expect(mock.history.post).toHaveLength(0);
+    });
   });
 });
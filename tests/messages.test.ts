@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  formatMessage,
+  humanizeField,
+  registerMessages,
+  resolveMessages,
+  resolveRuleMessage,
+  resolveStatusMessage,
+  setLocale
+} from '../src/utils/messages';
+
+describe('formatMessage', () => {
+  it('should replace known placeholders and keep unknown ones', () => {
+    expect(formatMessage('The :attribute must be at least :min (:unknown).', { attribute: 'age', min: 18 })).toBe(
+      'The age must be at least 18 (:unknown).'
+    );
+  });
+
+  it('should join array values', () => {
+    expect(formatMessage('Allowed: :values.', { values: ['jpg', 'png'] })).toBe('Allowed: jpg, png.');
+  });
+});
+
+describe('humanizeField', () => {
+  it('should use the last non-index path segment', () => {
+    expect(humanizeField('items.0.unit_price')).toBe('unit price');
+    expect(humanizeField('firstName')).toBe('first name');
+  });
+});
+
+describe('resolveRuleMessage', () => {
+  it('should pick the template for the kind of value', () => {
+    const rule = { name: 'max', params: { max: 3 }, validate: () => false };
+    expect(resolveRuleMessage(rule, 'tags', ['a', 'b', 'c', 'd'])).toBe(
+      'The tags field must not have more than 3 items.'
+    );
+    expect(resolveRuleMessage(rule, 'age', 4)).toBe('The age field must not be greater than 3.');
+  });
+
+  it('should prefer a custom message and fall back to a generic one', () => {
+    expect(resolveRuleMessage({ message: ':attribute is off', validate: () => false }, 'code', '')).toBe('code is off');
+    expect(resolveRuleMessage({ validate: () => false }, 'code', '')).toBe('The code field is invalid.');
+  });
+});
+
+describe('message catalog', () => {
+  afterEach(() => {
+    setLocale('en');
+  });
+
+  it('should fall back to English for messages a locale does not define', () => {
+    registerMessages('nl', { network: 'Netwerkfout.', rules: { required: 'Het :attribute veld is verplicht.' } });
+
+    const messages = resolveMessages('nl');
+
+    expect(messages.network).toBe('Netwerkfout.');
+    expect(messages.rules.required).toBe('Het :attribute veld is verplicht.');
+    expect(messages.rules.email).toBe('The :attribute field must be a valid email address.');
+    expect(messages.status[404]).toBe('The requested resource was not found.');
+  });
+
+  it('should use the global locale by default and apply overrides on top', () => {
+    registerMessages('de', { network: 'Netzwerkfehler.', status: { 404: 'Nicht gefunden.' } });
+    setLocale('de');
+
+    const messages = resolveMessages(undefined, { status: { 404: 'Seite fehlt.' } });
+
+    expect(messages.network).toBe('Netzwerkfehler.');
+    expect(messages.status[404]).toBe('Seite fehlt.');
+  });
+
+  it('should resolve status messages by code, server error and default', () => {
+    const messages = resolveMessages('en');
+
+    expect(resolveStatusMessage(messages, 403)).toBe('You do not have permission to perform this action.');
+    expect(resolveStatusMessage(messages, 503)).toBe('Server error. Please try again later.');
+    expect(resolveStatusMessage(messages, 418)).toBe('Server returned an error (418). Please try again.');
+  });
+});
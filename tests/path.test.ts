@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getValueAtPath, isPathWithin, joinPath, splitPath } from '../src/utils/path';
+
+describe('splitPath', () => {
+  it('should split a dot-notation path into segments', () => {
+    expect(splitPath('items.0.sku')).toEqual(['items', '0', 'sku']);
+    expect(splitPath('')).toEqual([]);
+  });
+});
+
+describe('joinPath', () => {
+  it('should join a parent path and a key', () => {
+    expect(joinPath('', 'items')).toBe('items');
+    expect(joinPath('items', 0)).toBe('items.0');
+  });
+});
+
+describe('isPathWithin', () => {
+  it('should match the path itself and nested paths', () => {
+    expect(isPathWithin('items', 'items')).toBe(true);
+    expect(isPathWithin('items.0.sku', 'items')).toBe(true);
+  });
+
+  it('should not match sibling paths sharing a prefix', () => {
+    expect(isPathWithin('itemsCount', 'items')).toBe(false);
+    expect(isPathWithin('address', 'address.city')).toBe(false);
+  });
+});
+
+describe('getValueAtPath', () => {
+  it('should read nested object and array values', () => {
+    const data = { address: { city: 'Colombo' }, items: [{ sku: 'A-1' }] };
+    expect(getValueAtPath(data, 'address.city')).toBe('Colombo');
+    expect(getValueAtPath(data, 'items.0.sku')).toBe('A-1');
+  });
+
+  it('should return undefined for missing paths', () => {
+    expect(getValueAtPath({ address: null }, 'address.city')).toBeUndefined();
+    expect(getValueAtPath({}, 'items.3')).toBeUndefined();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { resolveQueryParams, toSearchParams } from '../src/utils/query-string';
+
+describe('toSearchParams', () => {
+  it('should use bracket notation for nested objects and arrays', () => {
+    const params = toSearchParams({ q: 'shoes', filters: { brand: 'acme', sizes: [40, 41] }, inStock: true });
+    expect([...params.entries()]).toEqual([
+      ['q', 'shoes'],
+      ['filters[brand]', 'acme'],
+      ['filters[sizes][0]', '40'],
+      ['filters[sizes][1]', '41'],
+      ['inStock', '1']
+    ]);
+  });
+
+  it('should skip files', () => {
+    const params = toSearchParams({ q: 'a', avatar: new File(['a'], 'a.png') });
+    expect(params.toString()).toBe('q=a');
+  });
+});
+
+describe('resolveQueryParams', () => {
+  it('should merge with existing query parameters, letting submitted values win', () => {
+    const { url, params } = resolveQueryParams('/search?page=2&q=old', { q: 'new' });
+    expect(url).toBe('/search');
+    expect(params.toString()).toBe('page=2&q=new');
+  });
+
+  it('should replace existing query parameters', () => {
+    const { url, params } = resolveQueryParams('/search?page=2#results', { q: 'new' }, 'replace');
+    expect(url).toBe('/search#results');
+    expect(params.toString()).toBe('q=new');
+  });
+});
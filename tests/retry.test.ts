@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isTransportError, TransportError } from '../src/transport-error';
+import { getRetryDelay, isRetryable, resolveRetryOptions, waitForRetry, withRetry } from '../src/utils/retry';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new TransportError('http', 'Request failed', { status, data: {}, headers });
+
+describe('resolveRetryOptions', () => {
+  it('should accept a number of attempts and skip single attempts', () => {
+    expect(resolveRetryOptions(3)).toEqual({ attempts: 3 });
+    expect(resolveRetryOptions(1)).toBeNull();
+    expect(resolveRetryOptions()).toBeNull();
+  });
+});
+
+describe('isRetryable', () => {
+  const options = { attempts: 3 };
+
+  it('should retry network errors and transient statuses', () => {
+    expect(isRetryable(new TransportError('network', 'Network Error'), options)).toBe(true);
+    expect(isRetryable(httpError(503), options)).toBe(true);
+    expect(isRetryable(httpError(404), options)).toBe(false);
+  });
+
+  it('should never retry validation failures or cancellations', () => {
+    expect(isRetryable(httpError(422), { attempts: 3, statuses: [422] })).toBe(false);
+    expect(isRetryable(new TransportError('canceled', 'The request was canceled.'), options)).toBe(false);
+  });
+
+  it('should not retry when Retry-After exceeds maxDelay', () => {
+    const error = httpError(429, { 'retry-after': '30' });
+
+    expect(isRetryable(error, { attempts: 2 })).toBe(false);
+    expect(isRetryable(error, { attempts: 2, maxDelay: 60000 })).toBe(true);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const options = { attempts: 5, delay: 100, maxDelay: 300, jitter: false };
+
+    expect(getRetryDelay(1, options)).toBe(100);
+    expect(getRetryDelay(2, options)).toBe(200);
+    expect(getRetryDelay(3, options)).toBe(300);
+  });
+
+  it('should randomize the delay between half and all of the backoff', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(1, { attempts: 2, delay: 100 })).toBe(50);
+  });
+
+  it('should honor Retry-After in seconds or as a date', () => {
+    expect(getRetryDelay(1, { attempts: 2 }, httpError(429, { 'retry-after': '2' }))).toBe(2000);
+
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = getRetryDelay(1, { attempts: 2 }, httpError(503, { 'retry-after': date }));
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry until the request succeeds', async () => {
+    const request = vi.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce('ok');
+    const beforeRetry = vi.fn().mockResolvedValue(undefined);
+
+    await expect(withRetry(request, { attempts: 3, jitter: false }, beforeRetry)).resolves.toBe('ok');
+    expect(beforeRetry).toHaveBeenCalledWith(2, expect.any(TransportError), 500);
+  });
+
+  it('should give up after the last attempt', async () => {
+    const request = vi.fn().mockRejectedValue(httpError(500));
+
+    await expect(withRetry(request, { attempts: 2 }, async () => undefined)).rejects.toBeInstanceOf(TransportError);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('waitForRetry', () => {
+  it('should reject with a cancellation when the request is aborted', async () => {
+    const controller = new AbortController();
+    const waiting = waitForRetry(60000, controller.signal);
+
+    controller.abort();
+
+    await expect(waiting).rejects.toSatisfy((error: unknown) => isTransportError(error, 'canceled'));
+  });
+
+  it('should reject right away when the request is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(waitForRetry(60000, controller.signal)).rejects.toSatisfy((error: unknown) =>
+      isTransportError(error, 'canceled')
+    );
+  });
+});
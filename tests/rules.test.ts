@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { rules } from '../src/validators/rules';
+import { ValidationRule } from '../src/types/validation';
+
+const check = (rule: ValidationRule, value: unknown, data: Record<string, unknown> = {}, field = 'field') =>
+  rule.validate(value, data, field, new AbortController().signal);
+
+describe('rules', () => {
+  it('required should reject empty values', () => {
+    expect(check(rules.required(), '')).toBe(false);
+    expect(check(rules.required(), '   ')).toBe(false);
+    expect(check(rules.required(), null)).toBe(false);
+    expect(check(rules.required(), [])).toBe(false);
+    expect(check(rules.required(), 0)).toBe(true);
+    expect(check(rules.required(), 'a')).toBe(true);
+  });
+
+  it('should let empty values pass every rule but required, like Laravel', () => {
+    expect(check(rules.email(), '')).toBe(true);
+    expect(check(rules.min(3), null)).toBe(true);
+  });
+
+  it('email should validate the address format', () => {
+    expect(check(rules.email(), 'jane@example.com')).toBe(true);
+    expect(check(rules.email(), 'jane@')).toBe(false);
+  });
+
+  it('min, max and between should measure numbers, strings, arrays and files', () => {
+    expect(check(rules.min(3), 'ab')).toBe(false);
+    expect(check(rules.min(3), 5)).toBe(true);
+    expect(check(rules.max(2), ['a', 'b', 'c'])).toBe(false);
+    expect(check(rules.between(1, 3), 'abcd')).toBe(false);
+    expect(check(rules.max(1), new File([new Uint8Array(2048)], 'big.bin'))).toBe(false);
+  });
+
+  it('regex and in should match patterns and allowed values', () => {
+    expect(check(rules.regex(/^[A-Z]{3}$/), 'ABC')).toBe(true);
+    expect(check(rules.regex(/^[A-Z]{3}$/), 'abc')).toBe(false);
+    expect(check(rules.in(['draft', 'published']), 'draft')).toBe(true);
+    expect(check(rules.in(['draft', 'published']), ['draft', 'archived'])).toBe(false);
+  });
+
+  it('confirmed and same should compare against other fields', () => {
+    const data = { password: 'secret', password_confirmation: 'secret', other: 'nope' };
+    expect(check(rules.confirmed(), 'secret', data, 'password')).toBe(true);
+    expect(check(rules.confirmed(), 'secret', { ...data, password_confirmation: 'x' }, 'password')).toBe(false);
+    expect(check(rules.same('other'), 'secret', data)).toBe(false);
+  });
+
+  it('date, after and before should compare dates and date fields', () => {
+    const data = { starts_at: '2024-01-10' };
+    expect(check(rules.date(), 'not a date')).toBe(false);
+    expect(check(rules.after('starts_at'), '2024-01-11', data)).toBe(true);
+    expect(check(rules.after('starts_at'), '2024-01-09', data)).toBe(false);
+    expect(check(rules.before(new Date('2024-01-01')), '2023-12-31')).toBe(true);
+  });
+
+  it('numeric and url should validate their formats', () => {
+    expect(check(rules.numeric(), '12.5')).toBe(true);
+    expect(check(rules.numeric(), '12a')).toBe(false);
+    expect(check(rules.url(), 'https://example.com')).toBe(true);
+    expect(check(rules.url(), 'example')).toBe(false);
+  });
+
+  it('mimes and maxFileSize should check uploaded files', () => {
+    const photo = new File(['a'], 'photo.JPEG');
+    expect(check(rules.mimes(['jpg', 'png']), photo)).toBe(true);
+    expect(check(rules.mimes(['png']), [photo])).toBe(false);
+    expect(check(rules.maxFileSize(1), new File([new Uint8Array(2048)], 'big.bin'))).toBe(false);
+  });
+});
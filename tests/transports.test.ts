@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { isTransportError } from '../src/transport-error';
+import { axiosTransport } from '../src/transports/axios';
+import { fetchTransport } from '../src/transports/fetch';
+import { memoryTransport } from '../src/transports/memory';
+import { Form } from '../src/form';
+import { FormState } from '../src/enum/form';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+describe('axiosTransport', () => {
+  it('should normalize Axios failures', async () => {
+    const instance = axios.create();
+    const mock = new MockAdapter(instance);
+    mock.onPost('/missing').reply(404, { message: 'Not found' }).onPost('/down').networkError();
+    const transport = axiosTransport(instance);
+
+    const failure = await transport.request({ method: 'post', url: '/missing', headers: {} }).catch((e) => e);
+    expect(isTransportError(failure, 'http')).toBe(true);
+    expect(failure.response).toMatchObject({ status: 404, data: { message: 'Not found' } });
+
+    const network = await transport.request({ method: 'post', url: '/down', headers: {} }).catch((e) => e);
+    expect(isTransportError(network, 'network')).toBe(true);
+  });
+});
+
+describe('fetchTransport', () => {
+  it('should send JSON and parse JSON responses', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(201, { id: 1 }, { 'X-Request-Id': 'abc' }));
+    const transport = fetchTransport({ baseURL: 'https://api.test/', fetch });
+
+    const response = await transport.request({
+      method: 'post',
+      url: '/users',
+      data: { name: 'Ada' },
+      params: new URLSearchParams({ page: '2' }),
+      headers: { 'X-CSRF-TOKEN': 'token' }
+    });
+
+    expect(response).toEqual({ data: { id: 1 }, status: 201, headers: expect.any(Object) });
+    expect(response.headers['x-request-id']).toBe('abc');
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.test/users?page=2');
+    expect(init).toMatchObject({
+      method: 'POST',
+      body: '{"name":"Ada"}',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', 'X-CSRF-TOKEN': 'token' }
+    });
+  });
+
+  it('should send FormData as is and let the browser set the content type', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    const data = new FormData();
+    data.append('avatar', 'file');
+
+    await fetchTransport({ fetch }).request({ method: 'post', url: '/avatar', data, headers: {} });
+
+    const init = fetch.mock.calls[0][1];
+    expect(init.body).toBe(data);
+    expect(init.headers['Content-Type']).toBeUndefined();
+  });
+
+  it('should reject error statuses with the response', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse(422, { errors: { email: ['Taken.'] } }));
+
+    const error = await fetchTransport({ fetch })
+      .request({ method: 'post', url: '/users', headers: {} })
+      .catch((e) => e);
+
+    expect(isTransportError(error, 'http')).toBe(true);
+    expect(error.response).toMatchObject({ status: 422, data: { errors: { email: ['Taken.'] } } });
+  });
+
+  it('should distinguish network failures, cancellations and timeouts', async () => {
+    const hang = (url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => init.signal?.addEventListener('abort', () => reject(new Error('aborted'))));
+    const transport = fetchTransport({ fetch: vi.fn(hang) as unknown as typeof fetch });
+
+    const network = await fetchTransport({ fetch: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')) })
+      .request({ method: 'get', url: '/', headers: {} })
+      .catch((e) => e);
+    expect(isTransportError(network, 'network')).toBe(true);
+
+    const controller = new AbortController();
+    const canceled = transport.request({ method: 'get', url: '/', headers: {}, signal: controller.signal });
+    controller.abort();
+    expect(isTransportError(await canceled.catch((e) => e), 'canceled')).toBe(true);
+
+    const timedOut = await transport.request({ method: 'get', url: '/', headers: {}, timeout: 10 }).catch((e) => e);
+    expect(isTransportError(timedOut, 'timeout')).toBe(true);
+  });
+});
+
+describe('memoryTransport', () => {
+  it('should record requests and answer them from the handler', async () => {
+    const transport = memoryTransport((request) =>
+      request.url === '/users' ? { status: 201, data: { id: 1 } } : { status: 404 }
+    );
+    const form = new Form({ name: 'Ada' }, transport);
+
+    const result = await form.post('/users');
+
+    expect(result.ok && result.response.data).toEqual({ id: 1 });
+    expect(transport.requests[0]).toMatchObject({ method: 'post', url: '/users', data: { name: 'Ada' } });
+
+    await form.post('/elsewhere');
+    expect(form.state).toBe(FormState.ERROR);
+    expect(form.errors.formError).toBe('The requested resource was not found.');
+  });
+
+  it('should map 422 replies to field errors', async () => {
+    const form = new Form(
+      { email: '' },
+      memoryTransport(() => ({ status: 422, data: { errors: { email: ['The email field is required.'] } } }))
+    );
+
+    await form.post('/users');
+
+    expect(form.errors.email).toBe('The email field is required.');
+  });
+
+  it('should cancel pending replies when the request is aborted', async () => {
+    const form = new Form(
+      { name: '' },
+      memoryTransport(() => new Promise(() => undefined))
+    );
+
+    const submission = form.post('/users');
+    form.cancel();
+
+    expect((await submission).ok).toBe(false);
+    expect(form.state).toBe(FormState.CANCELLED);
+  });
+
+  it('should time out replies slower than the request timeout', async () => {
+    const form = new Form(
+      { name: '' },
+      memoryTransport(() => new Promise(() => undefined))
+    );
+
+    const result = await form.post('/users', { timeout: 10 });
+
+    expect(result.ok).toBe(false);
+    expect(form.state).toBe(FormState.TIMED_OUT);
+  });
+});
@@ -36,6 +36,16 @@ describe('useForm', () => {
     expect(form.data).toEqual({ name: 'John Doe', email: 'john@example.com' });
   });
 
+  it('should keep the reactive form when chaining methods', () => {
+    const form = useForm(initialData).withOptions({ spoofMethod: true }).withPrecognition('post', '/users');
+
+    expect(isReactive(form)).toBe(true);
+    expect(form.email).toBe('');
+    form.name = 'John Doe';
+    expect(form.data.name).toBe('John Doe');
+    expect(form.isDirty).toBe(true);
+  });
+
   it('should set and get form errors', () => {
     const form = useForm(initialData);
     form.setError('name', 'Name is required');
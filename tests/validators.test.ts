@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { zodValidator } from '../src/validators/zod';
+import { yupValidator } from '../src/validators/yup';
+import { valibotValidator } from '../src/validators/valibot';
+
+describe('zodValidator', () => {
+  it('should map Zod issues to dot-notation paths', async () => {
+    const schema = {
+      safeParseAsync: async () => ({
+        success: false as const,
+        error: { issues: [{ path: ['items', 0, 'sku'], message: 'Required' }] }
+      })
+    };
+
+    expect(await zodValidator(schema).validate({})).toEqual([{ path: 'items.0.sku', message: 'Required' }]);
+  });
+
+  it('should return no issues for valid data', async () => {
+    const schema = { safeParseAsync: async () => ({ success: true as const }) };
+    expect(await zodValidator(schema).validate({})).toEqual([]);
+  });
+});
+
+describe('yupValidator', () => {
+  const validationError = {
+    name: 'ValidationError',
+    message: '2 errors occurred',
+    inner: [
+      { name: 'ValidationError', path: 'items[0].sku', message: 'SKU is required' },
+      { name: 'ValidationError', path: 'email', message: 'Email is invalid' }
+    ]
+  };
+
+  it('should collect every inner error and normalize paths', async () => {
+    const schema = {
+      validate: async () => {
+        throw validationError;
+      }
+    };
+
+    expect(await yupValidator(schema).validate({})).toEqual([
+      { path: 'items.0.sku', message: 'SKU is required' },
+      { path: 'email', message: 'Email is invalid' }
+    ]);
+  });
+
+  it('should validate a single field with validateAt', async () => {
+    const schema = {
+      validate: async () => undefined,
+      validateAt: async (path: string) => {
+        throw { name: 'ValidationError', path, message: `${path} is invalid` };
+      }
+    };
+
+    const adapter = yupValidator(schema);
+    expect(await adapter.validateField!('email', {})).toEqual([{ path: 'email', message: 'email is invalid' }]);
+  });
+
+  it('should rethrow errors that are not validation errors', async () => {
+    const schema = {
+      validate: async () => {
+        throw new TypeError('boom');
+      }
+    };
+
+    await expect(yupValidator(schema).validate({})).rejects.toThrow('boom');
+  });
+});
+
+describe('valibotValidator', () => {
+  it('should map Valibot issues using the provided parse function', async () => {
+    const schema = { type: 'object' };
+    const safeParseAsync = async (_schema: typeof schema, _input: unknown) => ({
+      success: false,
+      issues: [{ message: 'Invalid city', path: [{ key: 'address' }, { key: 'city' }] }]
+    });
+
+    expect(await valibotValidator(schema, safeParseAsync).validate({})).toEqual([
+      { path: 'address.city', message: 'Invalid city' }
+    ]);
+  });
+});